@@ -0,0 +1,121 @@
+// Collects the solid colors of an import into a shared palette (local paint styles or a
+// variable collection) and binds the imported fills and strokes to it.
+// Near-identical values (PDF color conversion noise) are merged into one swatch.
+
+export type PaletteTarget = 'styles' | 'variables';
+
+interface Swatch {
+    color: RGB;
+    uses: number;
+    bind?: { styleId?: string, variable?: Variable };
+}
+
+// One paint list that can be rebound: a node's fills/strokes or the fills of a text range
+interface PaintSlot {
+    paints: readonly Paint[];
+    setPaints: (paints: Paint[]) => void;
+    setStyle: (styleId: string) => Promise<void>;
+}
+
+const MAX_COLORS = 48; // Gradients and photos-as-vectors would otherwise flood the palette
+const MERGE_DISTANCE = 4 / 255; // Per channel
+
+const paintSlots = (node: SceneNode): PaintSlot[] => {
+    const slots: PaintSlot[] = [];
+    if (node.type === 'TEXT') {
+        for (const segment of node.getStyledTextSegments(['fills'])) {
+            slots.push({
+                paints: segment.fills,
+                setPaints: paints => node.setRangeFills(segment.start, segment.end, paints),
+                setStyle: styleId => node.setRangeFillStyleIdAsync(segment.start, segment.end, styleId)
+            });
+        }
+    } else if (node.type === 'VECTOR' && node.fills !== figma.mixed) {
+        slots.push({
+            paints: node.fills,
+            setPaints: paints => { node.fills = paints; },
+            setStyle: styleId => node.setFillStyleIdAsync(styleId)
+        });
+    }
+    if (node.type === 'TEXT' || node.type === 'VECTOR') {
+        slots.push({
+            paints: node.strokes,
+            setPaints: paints => { node.strokes = paints; },
+            setStyle: styleId => node.setStrokeStyleIdAsync(styleId)
+        });
+    }
+    return slots;
+};
+
+const findSwatch = (swatches: Swatch[], color: RGB) => swatches.find(swatch =>
+    Math.abs(swatch.color.r - color.r) <= MERGE_DISTANCE &&
+    Math.abs(swatch.color.g - color.g) <= MERGE_DISTANCE &&
+    Math.abs(swatch.color.b - color.b) <= MERGE_DISTANCE
+);
+
+const toHex = ({ r, g, b }: RGB) =>
+    '#' + [r, g, b].map(v => Math.round(v * 255).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+// Creates the palette under `folder` and binds matching paints. Returns the number of colors created.
+export const createPalette = async (nodes: SceneNode[], target: PaletteTarget, folder: string) => {
+    const slots = nodes
+        .filter(node => !node.removed)
+        .reduce<PaintSlot[]>((all, node) => all.concat(paintSlots(node)), []);
+
+    // 1. Count usage, merging near-identical colors into the first (most used so far) swatch
+    const swatches: Swatch[] = [];
+    for (const slot of slots) {
+        for (const paint of slot.paints) {
+            if (paint.type !== 'SOLID' || paint.visible === false) continue;
+            const swatch = findSwatch(swatches, paint.color);
+            if (swatch) swatch.uses++;
+            else swatches.push({ color: paint.color, uses: 1 });
+        }
+    }
+    const palette = swatches.sort((a, b) => b.uses - a.uses).slice(0, MAX_COLORS);
+    if (palette.length === 0) return 0;
+
+    // 2. Create the styles or variables, most used first
+    const collection = target === 'variables' ? figma.variables.createVariableCollection(folder) : null;
+    palette.forEach((swatch, i) => {
+        const name = `Color ${i + 1}`;
+        const hex = toHex(swatch.color);
+        if (collection) {
+            const variable = figma.variables.createVariable(name, collection, 'COLOR');
+            variable.setValueForMode(collection.modes[0].modeId, { ...swatch.color, a: 1 });
+            variable.description = hex;
+            swatch.bind = { variable };
+        } else {
+            const style = figma.createPaintStyle();
+            style.name = `${folder}/${name}`;
+            style.paints = [{ type: 'SOLID', color: swatch.color }];
+            style.description = hex;
+            swatch.bind = { styleId: style.id };
+        }
+    });
+
+    // 3. Bind. Variables bind the color only, so per-node opacity survives. A style replaces the
+    // whole paint list, so only single, fully opaque solid paints are bound to one.
+    for (const slot of slots) {
+        try {
+            if (collection) {
+                let changed = false;
+                const paints = slot.paints.map(paint => {
+                    if (paint.type !== 'SOLID') return paint;
+                    const variable = findSwatch(palette, paint.color)?.bind?.variable;
+                    if (!variable) return paint;
+                    changed = true;
+                    return figma.variables.setBoundVariableForPaint(paint, 'color', variable);
+                });
+                if (changed) slot.setPaints(paints);
+            } else if (slot.paints.length === 1) {
+                const paint = slot.paints[0];
+                const styleId = paint.type === 'SOLID' && (paint.opacity ?? 1) === 1 && findSwatch(palette, paint.color)?.bind?.styleId;
+                if (styleId) await slot.setStyle(styleId);
+            }
+        } catch (e) {
+            console.warn("Failed to bind palette color", e);
+        }
+    }
+    return palette.length;
+};
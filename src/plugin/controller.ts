@@ -1,430 +1,877 @@
+import type {
+    BuildStage,
+    ControllerMessage,
+    CreatePageMessage,
+    CreatePlaceholderMessage,
+    FinishImportMessage,
+    UIMessage
+} from '../shared/messages';
+import { Paragraph, parseListMarker } from '../ui/worker/paragraph-grouper';
+import type { ClipPath, GradientFill, NativePath, PageLink } from '../ui/worker/pdf-processor';
+import type { PageTable } from '../ui/worker/table-detector';
+import { createPalette } from './color-palette';
+import { checkFonts, createFontResolver, FontSource, listAvailableFamilies, saveFontMappings } from './font-resolver';
+import { placeImage } from './image-placement';
+import { createTextStyles, ImportedText } from './text-styles';
+
 // Main thread logic
 figma.showUI(__html__, { width: 400, height: 600 });
 
-figma.ui.onmessage = async (msg) => {
-    if (msg.type === 'create-rectangles') {
-        const nodes: SceneNode[] = [];
-        for (let i = 0; i < msg.count; i++) {
-            const rect = figma.createRectangle();
-            rect.x = i * 150;
-            rect.fills = [{ type: 'SOLID', color: { r: 1, g: 0.5, b: 0 } }];
-            figma.currentPage.appendChild(rect);
-            nodes.push(rect);
+const setNavigateReaction = async (node: SceneNode, target: FrameNode) => {
+    if (!('setReactionsAsync' in node)) return;
+    await node.setReactionsAsync([{
+        trigger: { type: 'ON_CLICK' },
+        actions: [{
+            type: 'NODE',
+            destinationId: target.id,
+            navigation: 'NAVIGATE',
+            transition: null,
+            resetScrollPosition: true
+        }]
+    }]);
+};
+
+// Points the hotspots of an import waiting for page `pageIndex` at its frame
+const resolvePendingNavigations = async (pendingNavigations: PendingNavigation[], pageIndex: number, frame: FrameNode) => {
+    for (let i = pendingNavigations.length - 1; i >= 0; i--) {
+        const pending = pendingNavigations[i];
+        if (pending.destPage !== pageIndex) continue;
+        pendingNavigations.splice(i, 1);
+        try {
+            await setNavigateReaction(pending.node, frame);
+        } catch (e) {
+            console.warn("Failed to link hotspot to page", pageIndex + 1, e);
         }
-        figma.currentPage.selection = nodes;
-        figma.viewport.scrollAndZoomIntoView(nodes);
     }
+};
 
-    if (msg.type === 'create-page') {
-        const { index, data } = msg; // data = { width, height, items }
-        console.log(`[Controller] creating page ${index + 1}`, {
-            width: data.width,
-            height: data.height,
-            itemCount: data.items.length,
-            hasSVG: !!data.svg,
-            hasSanitizedSVG: !!data.svgSanitized,
-            hasImage: !!data.image,
-            hasExtractedImages: data.extractedImages?.length,
-            fontCount: data.fonts?.length
-        });
-
-        const frame = figma.createFrame();
-        frame.name = `Page ${index + 1}`;
-        frame.x = index * (data.width + 50); // layout horizontally
-        frame.resizeWithoutConstraints(data.width, data.height);
-
-        // Basic text rendering (MVP)
-        // We need to load fonts first, but for now let's just create nodes
-        // To strictly follow "await figma.loadFontAsync", we need a separate async function or handle it carefully.
-
-        const processItems = async () => {
-            // 1. Background Layer (Image or SVG)
-            // If we have SVG, we try that (it's vector).
-            // If we have Image, we put that BEHIND everything as a fallback/reference.
-            // Ideally, the user chooses "Editable" (Vectors) or "Reference" (Image).
-            // For now, we'll put the Image at the bottom (if exists) and SVG on top of it (if exists).
-
-            if (data.image) {
-                const imageRect = figma.createRectangle();
-                imageRect.resize(data.width, data.height);
-                imageRect.name = "Page Image (Background)";
-
-                const imageHash = figma.createImage(data.image).hash;
-                imageRect.fills = [{ type: 'IMAGE', scaleMode: 'FIT', imageHash }];
-
-                frame.appendChild(imageRect);
+// Imports the UI has cancelled; pages still being built for them are discarded. An id is dropped once
+// the builds queued before its cancel have drained.
+const cancelledImports = new Set<string>();
+// Hotspot whose target page has not been created yet (e.g. a TOC pointing forward)
+interface PendingNavigation {
+    node: SceneNode;
+    destPage: number;
+}
+// Nodes created per import, kept until finish-import (or cancel) for the document-wide style steps
+// and the links between pages
+interface ImportRecord {
+    texts: ImportedText[];
+    vectors: VectorNode[];
+    images: Map<string, Image>; // Extracted images by the id the UI assigned; bytes arrive only once
+    pageFrames: Map<number, FrameNode>; // By 0-based PDF page index, so internal links can target them
+    pendingNavigations: PendingNavigation[];
+}
+const importRecords = new Map<string, ImportRecord>();
+
+const emptyRecord = (): ImportRecord => ({ texts: [], vectors: [], images: new Map(), pageFrames: new Map(), pendingNavigations: [] });
+
+// Builds still running for a cancelled import get a throwaway record: cancel has dropped the real one
+const recordFor = (importId: string) => {
+    let record = importRecords.get(importId);
+    if (!record) {
+        record = emptyRecord();
+        if (!cancelledImports.has(importId)) importRecords.set(importId, record);
+    }
+    return record;
+};
+
+const DEFAULT_PAGE_SIZE = { width: 612, height: 792 }; // US Letter, used for placeholders
+
+// Replace a page's content with a visible error note so the rest of the import can continue.
+const showPageError = async (frame: FrameNode, pageNumber: number, error: string) => {
+    frame.children.forEach(child => child.remove());
+    frame.fills = [{ type: 'SOLID', color: { r: 1, g: 0.95, b: 0.95 } }];
+
+    await figma.loadFontAsync({ family: "Inter", style: "Regular" });
+    const note = figma.createText();
+    note.name = "Import Error";
+    note.fontName = { family: "Inter", style: "Regular" };
+    note.fontSize = 14;
+    note.characters = `Page ${pageNumber} could not be imported.\n\n${error}`;
+    note.fills = [{ type: 'SOLID', color: { r: 0.8, g: 0.1, b: 0.1 } }];
+    note.x = 24;
+    note.y = 24;
+    note.textAutoResize = "HEIGHT";
+    note.resize(Math.max(frame.width - 48, 100), note.height);
+    frame.appendChild(note);
+};
+
+const postToUI = (message: ControllerMessage) => figma.ui.postMessage(message);
+
+// Wrap consecutive nodes sharing a clip in mask groups, one nesting level per clip in the chain.
+// Returns the resulting top-level nodes in paint order.
+const applyClips = (
+    items: Array<{ node: SceneNode, clipId?: string }>,
+    parent: FrameNode,
+    clips: Record<string, ClipPath[]> = {}
+) => {
+    const result: SceneNode[] = [];
+    let i = 0;
+    while (i < items.length) {
+        const clipId = items[i].clipId;
+        const run: SceneNode[] = [];
+        while (i < items.length && items[i].clipId === clipId) {
+            run.push(items[i].node);
+            i++;
+        }
+
+        const chain = clipId ? clips[clipId] : undefined;
+        if (!chain || chain.length === 0) {
+            result.push(...run);
+            continue;
+        }
+
+        // Innermost clip first; a mask must be the bottom-most child of its group
+        let content = run;
+        for (let level = chain.length - 1; level >= 0; level--) {
+            const mask = figma.createVector();
+            mask.name = "Clip Mask";
+            mask.vectorPaths = [{ data: chain[level].d, windingRule: chain[level].windingRule }];
+            mask.fills = [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 } }];
+            mask.strokes = [];
+            mask.isMask = true;
+            parent.insertChild(parent.children.indexOf(content[0]), mask);
+
+            const group = figma.group([mask, ...content], parent, parent.children.indexOf(mask));
+            group.name = "Clip Group";
+            content = [group];
+        }
+        result.push(...content);
+    }
+    return result;
+};
+
+// Figma positions gradients in the node's normalized bounding box (0..1 on both axes) and wants
+// the transform from that space to gradient space: invert gradient -> page -> normalized box.
+const gradientPaint = (gradient: GradientFill, node: SceneNode, opacity: number): GradientPaint => {
+    const w = node.width || 1;
+    const h = node.height || 1;
+    const [a, b, c, d, e, f] = gradient.transform;
+    const [A, B, C, D, E, F] = [a / w, b / h, c / w, d / h, (e - node.x) / w, (f - node.y) / h];
+    const det = A * D - B * C || 1;
+
+    return {
+        type: gradient.type,
+        gradientTransform: [
+            [D / det, -C / det, (C * F - D * E) / det],
+            [-B / det, A / det, (B * E - A * F) / det]
+        ],
+        gradientStops: gradient.stops.map(({ position, r, g, b, a }) => ({ position, color: { r, g, b, a } })),
+        opacity
+    };
+};
+
+// Table cell text is rendered like any other paragraph, so fonts must be loaded for it too
+// Vector node for an extracted path, filled and stroked as it was painted. Spot colors keep their ink
+// name for prepress: in the layer name (after `name`) and as plugin data.
+const createPathVector = (pathData: NativePath, name: string) => {
+    const vector = figma.createVector();
+    vector.name = name;
+    vector.vectorPaths = [{
+        data: pathData.d,
+        windingRule: pathData.windingRule
+    }];
+
+    if (pathData.fill) {
+        const { r, g, b, opacity, gradient } = pathData.fill;
+        vector.fills = [gradient ? gradientPaint(gradient, vector, opacity) : { type: 'SOLID', color: { r, g, b }, opacity }];
+    } else {
+        vector.fills = [];
+    }
+
+    if (pathData.stroke) {
+        const { r, g, b, opacity, gradient, width, cap, join, miterLimit, dashPattern } = pathData.stroke;
+        vector.strokes = [gradient ? gradientPaint(gradient, vector, opacity) : { type: 'SOLID', color: { r, g, b }, opacity }];
+        vector.strokeWeight = width;
+        vector.strokeAlign = 'CENTER';
+        vector.strokeCap = cap;
+        vector.strokeJoin = join;
+        vector.strokeMiterLimit = miterLimit;
+        if (dashPattern.length > 0) {
+            vector.dashPattern = dashPattern;
+        }
+    } else {
+        vector.strokes = [];
+    }
+
+    const fillSpot = !pathData.fill?.gradient ? pathData.fill?.spot : undefined;
+    const strokeSpot = !pathData.stroke?.gradient ? pathData.stroke?.spot : undefined;
+    const spotNames = [fillSpot, strokeSpot]
+        .filter((spot): spot is NonNullable<typeof spot> => !!spot)
+        .map(spot => spot.tint < 1 ? `${spot.name} ${Math.round(spot.tint * 100)}%` : spot.name);
+    if (spotNames.length > 0) {
+        vector.name = `${name} (${spotNames.filter((spotName, i) => spotNames.indexOf(spotName) === i).join(', ')})`;
+        if (fillSpot) vector.setPluginData('spotFill', JSON.stringify(fillSpot));
+        if (strokeSpot) vector.setPluginData('spotStroke', JSON.stringify(strokeSpot));
+    }
+    return vector;
+};
+
+const tableParagraphs = (tables: PageTable[] = []) => {
+    const paragraphs: Paragraph[] = [];
+    for (const table of tables) {
+        for (const row of table.cells) {
+            for (const cell of row) paragraphs.push(...cell.paragraphs);
+        }
+    }
+    return paragraphs;
+};
+
+// The UI may have several pages in flight; build them one at a time, in the order they were sent.
+let buildQueue: Promise<void> = Promise.resolve();
+const enqueueBuild = (task: () => Promise<void>) => {
+    buildQueue = buildQueue.then(task).catch(e => console.error("Page build failed", e));
+};
+
+// Document-wide steps after the last page. Queued behind the page builds so every page exists.
+const finishImport = async (msg: FinishImportMessage) => {
+    const { importId, textStyles, palette, documentName } = msg;
+    const record = importRecords.get(importId) || emptyRecord();
+    importRecords.delete(importId);
+    const cancelled = cancelledImports.has(importId);
+
+    let styleCount = 0;
+    if (textStyles && !cancelled) {
+        try {
+            styleCount = await createTextStyles(record.texts, documentName);
+        } catch (e) {
+            console.error("Text style creation failed", e);
+        }
+    }
+
+    let colorCount = 0;
+    if (palette !== 'none' && !cancelled) {
+        try {
+            const nodes: SceneNode[] = [...record.vectors, ...record.texts.map(text => text.node)];
+            colorCount = await createPalette(nodes, palette, documentName);
+        } catch (e) {
+            console.error("Palette creation failed", e);
+        }
+    }
+    postToUI({ type: 'import-finished', importId, textStyles: styleCount, colors: colorCount });
+};
+
+// The UI failed to extract this page: keep its slot with an error note
+const createPlaceholder = async (msg: CreatePlaceholderMessage) => {
+    const { index, importId, order, error } = msg;
+    if (cancelledImports.has(importId)) return;
+
+    const frame = figma.createFrame();
+    frame.name = `Page ${index + 1} (Failed)`;
+    frame.x = order * (DEFAULT_PAGE_SIZE.width + 50);
+    frame.resizeWithoutConstraints(DEFAULT_PAGE_SIZE.width, DEFAULT_PAGE_SIZE.height);
+    figma.currentPage.appendChild(frame);
+    recordFor(importId).pageFrames.set(index, frame);
+
+    try {
+        await showPageError(frame, index + 1, error);
+    } catch (e) {
+        console.error("Placeholder creation failed", e);
+    }
+    postToUI({ type: 'page-failed', importId, index, error });
+};
+
+const createPage = async (msg: CreatePageMessage) => {
+    const { index, importId, order, data } = msg;
+    const isCancelled = () => cancelledImports.has(importId);
+    if (isCancelled()) return;
+
+    const reportStage = (stage: BuildStage) => postToUI({ type: 'progress', importId, index, stage });
+
+    // Images this page uses first; later pages refer to them by id
+    const images = recordFor(importId).images;
+    for (const [id, bytes] of Object.entries(data.images || {})) {
+        try {
+            images.set(id, figma.createImage(bytes));
+        } catch (e) {
+            console.warn("Failed to create image", id, e);
+        }
+    }
+
+    console.log(`[Controller] creating page ${index + 1}`, {
+        width: data.width,
+        height: data.height,
+        itemCount: data.items.length,
+        hasSVG: !!data.svg,
+        hasSanitizedSVG: !!data.svgSanitized,
+        hasImage: !!data.image,
+        hasExtractedImages: data.extractedImages?.length,
+        fontCount: data.fonts?.length
+    });
+
+    const frame = figma.createFrame();
+    frame.name = `Page ${index + 1}`;
+    frame.x = order * (data.width + 50); // layout horizontally
+    frame.resizeWithoutConstraints(data.width, data.height);
+    recordFor(importId).pageFrames.set(index, frame);
+
+    // Basic text rendering (MVP)
+    // We need to load fonts first, but for now let's just create nodes
+    // To strictly follow "await figma.loadFontAsync", we need a separate async function or handle it carefully.
+
+    const processItems = async () => {
+        // 1. Background Layer (Image or SVG)
+        reportStage('background');
+        // If we have SVG, we try that (it's vector).
+        // If we have Image, we put that BEHIND everything as a fallback/reference.
+        // Ideally, the user chooses "Editable" (Vectors) or "Reference" (Image).
+        // For now, we'll put the Image at the bottom (if exists) and SVG on top of it (if exists).
+
+        if (data.image) {
+            const imageRect = figma.createRectangle();
+            imageRect.resize(data.width, data.height);
+            // Image mode: the raster IS the page. Otherwise it sits behind editable layers.
+            imageRect.name = data.mode === 'image' ? "Page Image" : "Page Image (Background)";
+
+            const imageHash = figma.createImage(data.image).hash;
+            imageRect.fills = [{ type: 'IMAGE', scaleMode: 'FIT', imageHash }];
+
+            frame.appendChild(imageRect);
+            if (data.mode !== 'image') {
                 imageRect.locked = true; // Lock background
             }
+        }
 
-            if (data.svg) {
-                try {
-                    // Pass A: High Fidelity SVG
-                    const svgNode = figma.createNodeFromSvg(data.svg);
-                    svgNode.name = "Vector Graphics (Hi-Fi)";
-                    frame.appendChild(svgNode);
-                } catch (e) {
-                    console.warn("High fidelity SVG failed, trying fallback...", e);
-
-                    // Pass B: Sanitized SVG
-                    if (data.svgSanitized) {
-                        try {
-                            const sanitizedNode = figma.createNodeFromSvg(data.svgSanitized);
-                            sanitizedNode.name = "Vector Graphics (Sanitized)";
-                            frame.appendChild(sanitizedNode);
-                        } catch (e2) {
-                            console.warn("Sanitized SVG also failed, trying Ultra-Safe...", e2);
-
-                            // Pass C: Ultra-Safe SVG
-                            if (data.svgUltraSafe) {
-                                try {
-                                    const ultraSafeNode = figma.createNodeFromSvg(data.svgUltraSafe);
-                                    ultraSafeNode.name = "Vector Graphics (Safe)";
-                                    frame.appendChild(ultraSafeNode);
-                                } catch (e3) {
-                                    console.warn("All SVG fallbacks failed. Only Background Image will be shown.", e3);
-                                }
+        if (data.svg) {
+            try {
+                // Pass A: High Fidelity SVG
+                const svgNode = figma.createNodeFromSvg(data.svg);
+                svgNode.name = "Vector Graphics (Hi-Fi)";
+                frame.appendChild(svgNode);
+            } catch (e) {
+                console.warn("High fidelity SVG failed, trying fallback...", e);
+
+                // Pass B: Sanitized SVG
+                if (data.svgSanitized) {
+                    try {
+                        const sanitizedNode = figma.createNodeFromSvg(data.svgSanitized);
+                        sanitizedNode.name = "Vector Graphics (Sanitized)";
+                        frame.appendChild(sanitizedNode);
+                    } catch (e2) {
+                        console.warn("Sanitized SVG also failed, trying Ultra-Safe...", e2);
+
+                        // Pass C: Ultra-Safe SVG
+                        if (data.svgUltraSafe) {
+                            try {
+                                const ultraSafeNode = figma.createNodeFromSvg(data.svgUltraSafe);
+                                ultraSafeNode.name = "Vector Graphics (Safe)";
+                                frame.appendChild(ultraSafeNode);
+                            } catch (e3) {
+                                console.warn("All SVG fallbacks failed. Only Background Image will be shown.", e3);
                             }
                         }
                     }
                 }
             }
+        }
 
-            // 1.5 Render Smart Extracted Images (Background/Photos)
-            // These are individual bitmaps extracted from the PDF stream.
-            if (data.extractedImages && data.extractedImages.length > 0) {
-                // Determine parent: frame
-                const imageNodes: SceneNode[] = [];
+        if (isCancelled()) return;
 
-                for (const imgData of data.extractedImages) {
-                    try {
-                        const image = figma.createImage(imgData.data);
-                        const rect = figma.createRectangle();
-                        rect.name = "Image";
-                        rect.fills = [{ type: 'IMAGE', scaleMode: 'FIT', imageHash: image.hash }];
-
-                        // Transform Mapping
-                        // PDF Matrix: [a, b, c, d, tx, ty]
-                        const [a, b, c, d, tx, ty] = imgData.transform;
-
-                        // Scale
-                        const width = Math.sqrt(a * a + b * b);
-                        const height = Math.sqrt(c * c + d * d);
-
-                        // Position (Assume unrotated/Bottom-Left origin)
-                        const figmaX = tx;
-                        const figmaY = data.height - ty - height;
-
-                        rect.x = figmaX;
-                        rect.y = figmaY;
-                        rect.resize(width, height);
-
-                        frame.appendChild(rect);
-                        imageNodes.push(rect);
-                    } catch (err) {
-                        console.warn("Failed to render extracted image", err);
-                    }
-                }
+        // 1.5 Render Smart Extracted Images (Background/Photos)
+        // These are individual bitmaps extracted from the PDF stream.
+        reportStage('images');
+        if (data.extractedImages && data.extractedImages.length > 0) {
+            // Determine parent: frame
+            const imageNodes: Array<{ node: SceneNode, clipId?: string }> = [];
 
-                if (imageNodes.length > 0) {
-                    const group = figma.group(imageNodes, frame);
-                    group.name = "Images";
+            for (const imgData of data.extractedImages) {
+                try {
+                    const image = images.get(imgData.imageId);
+                    if (!image) throw new Error(`Image ${imgData.imageId} was never received`);
+                    const rect = figma.createRectangle();
+                    rect.name = "Image";
+                    // PDF images stretch to their unit square whatever the pixel aspect ratio
+                    rect.fills = [{ type: 'IMAGE', scaleMode: 'CROP', imageTransform: [[1, 0, 0], [0, 1, 0]], imageHash: image.hash }];
+
+                    const { width, height, relativeTransform } = placeImage(imgData.transform, data.height);
+                    rect.resize(width, height);
+                    rect.relativeTransform = relativeTransform;
+
+                    frame.appendChild(rect);
+                    imageNodes.push({ node: rect, clipId: imgData.clipId });
+                } catch (err) {
+                    console.warn("Failed to render extracted image", err);
                 }
             }
 
-            // 1.7 Render Native Vectors
-            if (data.nativePaths && data.nativePaths.length > 0) {
-                // Determine nodes to group
-                const vectorNodes: SceneNode[] = [];
+            if (imageNodes.length > 0) {
+                const group = figma.group(applyClips(imageNodes, frame, data.clips), frame);
+                group.name = "Images";
+            }
+        }
 
-                for (const pathData of data.nativePaths) {
-                    try {
-                        const vector = figma.createVector();
-                        vector.vectorPaths = [{
-                            data: pathData.d,
-                            windingRule: 'NONZERO'
-                        }];
-
-                        if (pathData.fill) {
-                            vector.fills = [{ type: 'SOLID', color: pathData.fill, opacity: pathData.opacity || 1 }];
-                        } else {
-                            vector.fills = [];
-                        }
+        if (isCancelled()) return;
 
-                        if (pathData.stroke) {
-                            vector.strokes = [{ type: 'SOLID', color: { r: pathData.stroke.r, g: pathData.stroke.g, b: pathData.stroke.b }, opacity: pathData.opacity || 1 }];
-                            vector.strokeWeight = pathData.stroke.width;
-                        }
+        // 1.7 Render Native Vectors
+        reportStage('vectors');
+        if (data.nativePaths && data.nativePaths.length > 0) {
+            // Determine nodes to group
+            const vectorNodes: Array<{ node: SceneNode, clipId?: string }> = [];
 
-                        // Matrix Mapping (Experimental Flip)
-                        const [a, b, c, d, tx, ty] = pathData.transform;
-                        // PDF -> Figma (Flip Y)
-                        // vector.x = tx; // This is naive
-                        // vector.y = data.height - ty;
-
-                        // Full matrix approach:
-                        // Figma: [[a, c, tx], [b, d, ty]]
-                        // PDF: [a, b, c, d, tx, ty]
-                        // Note: Figma's matrix rows are [a, c, tx] and [b, d, ty]
-                        // We need row-major for figma.relativeTransform
-                        vector.relativeTransform = [
-                            [a, c, tx],
-                            [-b, -d, data.height - ty]
-                        ];
-
-                        vectorGroup.appendChild(vector);
-                    } catch (err) {
-                        console.warn("Failed to render native vector", err);
-                    }
+            for (const pathData of data.nativePaths) {
+                try {
+                    // Path data is already in page coordinates (top-left origin), so no transform is needed
+                    const vector = createPathVector(pathData, "Path");
+                    frame.appendChild(vector);
+                    vectorNodes.push({ node: vector, clipId: pathData.clipId });
+                    recordFor(importId).vectors.push(vector);
+                } catch (err) {
+                    console.warn("Failed to render native vector", err);
                 }
             }
 
-            // Create Text on top
-            // We need to preload common fonts. In a real app we'd map PDF fonts to Figma fonts.
-            // For MVP, we load Inter (Regular, Bold).
-            // 2. Preload Fonts
-            // We blindly try to load the fonts detected in the PDF.
-            // If they fail, we fallback to Inter.
-            const uniqueFontFamilies = new Set<string>(data.fonts || []);
-            uniqueFontFamilies.add("Inter"); // Always needed for fallback
-
-            const fontLoadPromises: Promise<void>[] = [];
-
-            // Helper to get Figma Style Name from weight/style
-            const getStyleName = (weight: string | number, style: string) => {
-                const isBold = weight === 'bold' || (typeof weight === 'number' && weight >= 700);
-                const isItalic = style === 'italic';
-                if (isBold && isItalic) return "Bold Italic";
-                if (isBold) return "Bold";
-                if (isItalic) return "Italic";
-                return "Regular";
-            };
+            if (vectorNodes.length > 0) {
+                const group = figma.group(applyClips(vectorNodes, frame, data.clips), frame);
+                group.name = "Vectors";
+            }
+        }
 
-            // NEW: Clean PostScript Names
-            // e.g. "ABCDEF+Roboto-Bold" -> { family: "Roboto", style: "Bold" }
-            const cleanFontName = (psName: string) => {
-                let name = psName;
-                // Remove Subset prefix (6 chars + +)
-                if (name.includes('+')) {
-                    name = name.split('+')[1];
-                }
+        // Create Text on top
+        // 2. Resolve and load fonts: every paragraph and run style is mapped to an available Figma
+        // font (user substitutions first, then the parsed PostScript name, then the CSS family)
+        reportStage('fonts');
+        const resolveFont = await createFontResolver();
+
+        // Every style run needs its font too (runs[0] is the paragraph's own style)
+        const fontStyles = [...data.items, ...tableParagraphs(data.tables)]
+            .reduce<FontSource[]>((styles, item) => styles.concat(item.runs || [item]), []);
+
+        const loadedFonts = new Set<string>();
+        const missingFonts = new Set<string>();
+        for (const style of fontStyles) {
+            const { font, source, missing } = resolveFont(style);
+            if (missing) missingFonts.add(source);
+            const id = `${font.family}|${font.style}`;
+            if (loadedFonts.has(id)) continue;
+            try {
+                await figma.loadFontAsync(font);
+                loadedFonts.add(id);
+            } catch (e) {
+                missingFonts.add(source);
+            }
+        }
+        // Always load Inter Regular as last resort
+        await figma.loadFontAsync({ family: "Inter", style: "Regular" });
+
+        if (missingFonts.size > 0) {
+            figma.notify(`Some fonts could not be loaded: ${[...missingFonts].join(', ')}`, { timeout: 4000 });
+        }
 
-                // Split by Hyphen
-                let [family, style] = name.split('-');
-                if (!style) style = "Regular";
+        if (isCancelled()) return;
 
-                // Clean Style
-                style = style.replace('MT', '').replace('PS', '').replace('Std', '').replace('Pro', '');
-                // Basic mapping
-                if (style === 'BoldMT') style = 'Bold';
-                if (style === 'ItalicMT') style = 'Italic';
+        reportStage('text');
 
-                // Clean Family
-                family = family.replace('MT', '').replace('PS', '').replace('Std', '');
-                // Space insertion for camelCase might be good but risky. "TimesNewRoman" -> "Times New Roman"
-                if (family === 'TimesNewRoman') family = 'Times New Roman';
-                if (family === 'ArialMT') family = 'Arial';
+        // Resolved font for a paragraph or run style, Inter Regular when it failed to load
+        const chooseFont = (style: FontSource): FontName => {
+            const { font } = resolveFont(style);
+            return loadedFonts.has(`${font.family}|${font.style}`) ? font : { family: "Inter", style: "Regular" };
+        };
 
-                return { family, style };
+        // Text colors come from computed CSS ("rgb(r, g, b)"); anything else falls back to black
+        const textPaint = (color: string | undefined, opacity: number | undefined): SolidPaint => {
+            const rgbMatch = color?.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
+            if (!rgbMatch) return { type: 'SOLID', color: { r: 0, g: 0, b: 0 } };
+            return {
+                type: 'SOLID',
+                color: { r: parseInt(rgbMatch[1]) / 255, g: parseInt(rgbMatch[2]) / 255, b: parseInt(rgbMatch[3]) / 255 },
+                opacity: opacity !== undefined ? opacity : 1
             };
+        };
 
-            // We need to load specific {Family, Style} pairs.
-            // Since we don't know exactly which combinations exist, let's load
-            // the combinations we *see* in the items. 
-            // Better: Iterate items and collect required {Family, Style} pairs.
-            // Collect required fonts with preferred names
-            const requiredFonts = new Set<string>(); // "Family|Style"
-
-            data.items.forEach((item: any) => {
-                const style = getStyleName(item.fontWeight, item.fontStyle);
-
-                // 1. Prefer Raw PS Name
-                if (item.rawFontName) {
-                    const { family, style: psStyle } = cleanFontName(item.rawFontName);
-                    requiredFonts.add(`${family}|${psStyle}`);
-                    // Also try mixed combos
-                    requiredFonts.add(`${family}|${style}`);
-                }
+        // Keep created text nodes with their source paragraph for hyperlink mapping
+        const textNodes: Array<{ node: TextNode, item: Paragraph }> = [];
 
-                // 2. CSS Fallback (what we had before)
-                requiredFonts.add(`${item.fontFamily}|${style}`);
+        // Paragraph -> styled text node positioned in page coordinates (the caller parents it)
+        const buildText = (item: Paragraph) => {
+            const text = figma.createText();
+            text.characters = item.text;
 
-                // 3. Fallback
-                requiredFonts.add(`Inter|${style}`);
-            });
+            // Name layer based on role
+            if (item.structRole) {
+                text.name = `[${item.structRole}] ${item.text.substring(0, 20)}...`;
+            } else {
+                text.name = item.text.substring(0, 30);
+            }
 
-            const loadedFonts = new Set<string>();
-            const missingFonts = new Set<string>(); // Just for logging
+            // Style
+            text.fontSize = item.fontSize;
+            const baseFont = chooseFont(item);
+            text.fontName = baseFont;
+
+            // Coordinate Mapping - TOP ALIGN APPROACH
+            // text.y = data.height - (item.y + item.height); 
+            text.x = item.x;
+            // Standard Baseline to Top conversion:
+            // Top = BaselineY + (0.8 * FontSize)
+            // FigmaY = PageHeight - Top
+            // FigmaY = PageHeight - (item.y + (item.fontSize * 0.9)); // Increased to 0.9 to push it up (prevent overlap below)
+
+            text.y = data.height - item.y - (item.fontSize * 0.95);
+
+            // Box Control
+            if (item.lines && item.lines.length > 1) {
+                // Multi-line Paragraph -> Fixed Width / Auto Height
+                text.textAutoResize = "HEIGHT";
+                text.resize(item.width, item.fontSize * item.lines.length * 1.2); // Initial height guess
+            } else {
+                // Single Line -> Point Text (Auto Width)
+                text.textAutoResize = "WIDTH_AND_HEIGHT";
+            }
 
-            const loadFontSafe = async (family: string, style: string) => {
-                const id = `${family}|${style}`;
-                if (loadedFonts.has(id)) return true; // Already loaded
-                try {
-                    await figma.loadFontAsync({ family, style });
-                    loadedFonts.add(id);
-                    return true;
-                } catch (e) {
-                    // console.warn(`Failed to load ${family} ${style}`);
-                    return false;
-                }
-            };
+            // Layout Fidelity Improvements
+            // 0. Alignment (New)
+            if (item.textAlign) {
+                text.textAlignHorizontal = item.textAlign;
+            }
 
-            // Execute Loading
-            for (const fontId of requiredFonts) {
-                const [family, style] = fontId.split('|');
-                await loadFontSafe(family, style);
+            // 1. Line Height
+            // Priority: Calculated (PDF Y-delta) > CSS Computed > Auto
+            if (item.lineHeight) {
+                text.lineHeight = { value: item.lineHeight, unit: 'PIXELS' };
             }
-            // Always load Inter Regular as last resort
-            await loadFontSafe("Inter", "Regular");
 
-            if (missingFonts.size > 0) {
-                figma.notify(`Some fonts could not be loaded.`, { timeout: 2000 });
+            // 2. Letter Spacing
+            // Computed style gives px. Figma uses pixels (or %).
+            if (item.letterSpacing) {
+                text.letterSpacing = { value: item.letterSpacing, unit: 'PIXELS' };
+            } else {
+                // Default tight tracking if none found 
+                text.letterSpacing = { value: -0.5, unit: 'PERCENT' };
             }
 
-            for (const item of data.items) {
-                if (item.type === 'paragraph' && item.text.trim().length > 0) {
-                    const text = figma.createText();
-                    text.characters = item.text;
+            // 3. Color & Opacity
+            text.fills = [textPaint(item.color, item.opacity)];
+
+            // 3a. Lists: Figma draws the bullets/numbers (the PDF markers were stripped from the text),
+            // at indentation level 1, so each marker sits at the box's left edge like the PDF's and
+            // wrapped lines hang under the item text
+            if (item.list) {
+                text.setRangeListOptions(0, text.characters.length, { type: item.list });
+                text.setRangeIndentation(0, text.characters.length, 1);
+            }
 
-                    // Name layer based on role
-                    if (item.structRole) {
-                        text.name = `[${item.structRole}] ${item.text.substring(0, 20)}...`;
-                    } else {
-                        text.name = item.text.substring(0, 30);
+            // 3b. Mixed styles: apply every run that differs from the paragraph's own style
+            for (const run of item.runs || []) {
+                if (run.start >= run.end) continue;
+                const runFont = chooseFont(run);
+                if (runFont.family !== baseFont.family || runFont.style !== baseFont.style) {
+                    text.setRangeFontName(run.start, run.end, runFont);
+                }
+                if (Math.abs(run.fontSize - item.fontSize) >= 0.5) {
+                    text.setRangeFontSize(run.start, run.end, run.fontSize);
+                }
+                if (run.color !== item.color || run.opacity !== item.opacity) {
+                    text.setRangeFills(run.start, run.end, [textPaint(run.color, run.opacity)]);
+                }
+            }
+
+            // 3c. Outlined fonts: the glyph outlines carry the look, the text stays editable underneath.
+            // Fully outlined paragraphs are hidden, mixed ones only turn their outlined runs transparent.
+            if (data.textOutlines) {
+                const runs = (item.runs || []).filter(run => run.start < run.end);
+                if (runs.length > 0 && runs.every(run => run.outlined)) {
+                    text.visible = false;
+                } else {
+                    for (const run of runs) {
+                        if (run.outlined) text.setRangeFills(run.start, run.end, [textPaint(run.color, 0)]);
                     }
+                }
+            }
+
+            // 4. Horizontal scaling (Tz): Figma cannot stretch glyphs, so single lines are tracked
+            // out (or in) until they span the width the PDF gave them
+            const scaling = item.horizontalScaling ?? 100;
+            if (Math.abs(scaling - 100) >= 3 && item.lines.length === 1 && text.characters.length > 1) {
+                const current = item.letterSpacing || 0;
+                const extra = (item.width - text.width) / text.characters.length;
+                text.letterSpacing = { value: current + extra, unit: 'PIXELS' };
+            }
+
+            // 5. Rotation/skew: place the node through the text matrix instead of x/y.
+            // Local x runs along the baseline, local y down the glyphs (PDF up-vector, flipped for Figma)
+            if (item.matrix) {
+                const [a, b, c, d] = item.matrix;
+                const across = Math.hypot(a, b) || 1;
+                const up = Math.hypot(c, d) || 1;
+                const ux = a / across, uy = -b / across; // Baseline direction, Figma space
+                const vx = c / up, vy = -d / up; // Glyph up direction, Figma space
+                const baselineX = item.x;
+                const baselineY = data.height - item.y;
+                const ascent = item.fontSize * 0.95;
+                text.relativeTransform = [
+                    [ux, -vx, baselineX + vx * ascent],
+                    [uy, -vy, baselineY + vy * ascent]
+                ];
+            }
 
-                    // Style
-                    text.fontSize = item.fontSize;
+            return text;
+        };
 
-                    // Font Loading Logic
-                    // Font Loading Logic - PRIORITY SEQUENCE
-                    const styleName = getStyleName(item.fontWeight, item.fontStyle);
-                    const cssFamily = item.fontFamily;
+        for (const item of data.items) {
+            if (item.type === 'paragraph' && item.text.trim().length > 0) {
+                const text = buildText(item);
+                frame.appendChild(text);
+                textNodes.push({ node: text, item });
+                recordFor(importId).texts.push({ node: text, structRole: item.structRole });
+            }
+        }
 
-                    let chosenFont = { family: "Inter", style: "Regular" };
+        // Glyph outlines of the text set in unavailable or Type3 fonts, above the text they stand in for
+        if (data.textOutlines && data.textOutlines.length > 0) {
+            const outlines: Array<{ node: SceneNode, clipId?: string }> = [];
+            for (const outline of data.textOutlines) {
+                try {
+                    // Filled and/or stroked as the text rendering mode says
+                    const vector = createPathVector(outline, "Glyphs");
+                    frame.appendChild(vector);
+                    outlines.push({ node: vector, clipId: outline.clipId });
+                    recordFor(importId).vectors.push(vector);
+                } catch (err) {
+                    console.warn("Failed to render text outline", err);
+                }
+            }
+            if (outlines.length > 0) {
+                figma.group(applyClips(outlines, frame, data.clips), frame).name = "Outlined Text";
+            }
+        }
 
-                    // 1. Try Cleaned PS Name
-                    if (item.rawFontName) {
-                        const { family, style } = cleanFontName(item.rawFontName);
-                        if (loadedFonts.has(`${family}|${style}`)) {
-                            chosenFont = { family, style };
-                        } else if (loadedFonts.has(`${family}|${styleName}`)) {
-                            chosenFont = { family, style: styleName };
+        if (isCancelled()) return;
+
+        // 2b. Tables: a vertical auto-layout of rows, each a horizontal auto-layout of fixed-size cells
+        reportStage('tables');
+        for (const table of data.tables || []) {
+            try {
+                const tableFrame = figma.createFrame();
+                tableFrame.name = "Table";
+                tableFrame.layoutMode = 'VERTICAL';
+                tableFrame.primaryAxisSizingMode = 'AUTO';
+                tableFrame.counterAxisSizingMode = 'AUTO';
+                tableFrame.fills = [];
+                tableFrame.clipsContent = false;
+                frame.appendChild(tableFrame);
+                tableFrame.x = table.x;
+                tableFrame.y = table.y;
+
+                table.cells.forEach((cells, r) => {
+                    const row = figma.createFrame();
+                    row.name = `Row ${r + 1}`;
+                    row.layoutMode = 'HORIZONTAL';
+                    row.primaryAxisSizingMode = 'AUTO';
+                    row.counterAxisSizingMode = 'AUTO';
+                    row.fills = [];
+                    row.clipsContent = false;
+                    tableFrame.appendChild(row);
+
+                    cells.forEach((cell, c) => {
+                        const cellFrame = figma.createFrame();
+                        cellFrame.name = `Cell ${r + 1}:${c + 1}`;
+                        cellFrame.layoutMode = 'VERTICAL';
+                        cellFrame.primaryAxisSizingMode = 'FIXED';
+                        cellFrame.counterAxisSizingMode = 'FIXED';
+                        cellFrame.resize(Math.max(cell.width, 1), Math.max(cell.height, 1));
+                        cellFrame.fills = [];
+                        cellFrame.clipsContent = false;
+                        if (table.border) {
+                            const { r: red, g, b, width } = table.border;
+                            cellFrame.strokes = [{ type: 'SOLID', color: { r: red, g, b } }];
+                            cellFrame.strokeWeight = width;
+                            cellFrame.strokeAlign = 'CENTER';
+                        }
+                        row.appendChild(cellFrame);
+
+                        const texts = cell.paragraphs.filter(p => p.text.trim().length > 0).map(p => {
+                            const text = buildText(p);
+                            textNodes.push({ node: text, item: p });
+                            recordFor(importId).texts.push({ node: text, structRole: p.structRole });
+                            return text;
+                        });
+                        if (texts.length === 0) return;
+
+                        // Keep the text where the PDF had it: pad to its offset and follow its alignment
+                        const left = Math.min(...texts.map(t => t.x)) - cell.x;
+                        const right = cell.x + cell.width - Math.max(...texts.map(t => t.x + t.width));
+                        cellFrame.paddingTop = Math.max(0, texts[0].y - cell.y);
+                        if (Math.abs(left - right) < 2) {
+                            cellFrame.counterAxisAlignItems = 'CENTER';
+                        } else if (right < left) {
+                            cellFrame.counterAxisAlignItems = 'MAX';
+                            cellFrame.paddingRight = Math.max(0, right);
+                        } else {
+                            cellFrame.paddingLeft = Math.max(0, left);
                         }
+                        texts.forEach(text => cellFrame.appendChild(text));
+                    });
+                });
+            } catch (err) {
+                console.warn("Failed to build table", err);
+            }
+        }
+
+        if (isCancelled()) return;
+
+        // 3. Hyperlinks & Prototype Hotspots
+        reportStage('links');
+        // Link rects are in viewport (top-down) coordinates, the same space as the frame.
+        if (data.links && data.links.length > 0) {
+            const hotspots: SceneNode[] = [];
+
+            // Character range [start, end) of the paragraph text covered by the link rect.
+            // Paragraph text is the line items joined with spaces, so we walk it with a cursor.
+            const findLinkedRange = (item: Paragraph, link: PageLink) => {
+                let start = -1;
+                let end = -1;
+                let cursor = 0;
+                for (const line of item.lines || []) {
+                    for (const run of line) {
+                        // List items start with the marker the paragraph text no longer has
+                        const str = item.list && run === line[0] ? parseListMarker(run.str)?.text ?? run.str : run.str;
+                        const offset = item.text.indexOf(str, cursor);
+                        if (offset < 0) continue;
+                        cursor = offset + str.length;
+
+                        const runHeight = run.height || item.fontSize;
+                        const runTop = data.height - run.y - runHeight;
+                        const overlaps =
+                            run.x < link.x + link.w && run.x + run.width > link.x &&
+                            runTop < link.y + link.h && runTop + runHeight > link.y;
+                        if (!overlaps) continue;
+
+                        if (start < 0) start = offset;
+                        end = cursor;
                     }
+                }
+                return start >= 0 && end > start ? { start, end } : null;
+            };
 
-                    // 2. Try CSS Family
-                    if (chosenFont.family === "Inter") { // Only if not found yet
-                        if (loadedFonts.has(`${cssFamily}|${styleName}`)) {
-                            chosenFont = { family: cssFamily, style: styleName };
+            for (const link of data.links) {
+                try {
+                    let hitText = false;
+
+                    if (link.url) {
+                        for (const { node, item } of textNodes) {
+                            const range = findLinkedRange(item, link);
+                            if (range) {
+                                node.setRangeHyperlink(range.start, range.end, { type: 'URL', value: link.url });
+                                hitText = true;
+                            }
                         }
                     }
 
-                    // 3. Try Inter w/ Style
-                    if (chosenFont.family === "Inter") {
-                        if (loadedFonts.has(`Inter|${styleName}`)) {
-                            chosenFont = { family: "Inter", style: styleName };
+                    // Internal jumps always need a hotspot: text ranges cannot carry prototype reactions
+                    if (hitText && link.destPage === undefined) continue;
+
+                    const hotspot = figma.createRectangle();
+                    hotspot.x = link.x;
+                    hotspot.y = link.y;
+                    hotspot.resize(Math.max(link.w, 1), Math.max(link.h, 1));
+                    hotspot.fills = [];
+                    frame.appendChild(hotspot);
+                    hotspots.push(hotspot);
+
+                    if (link.destPage !== undefined) {
+                        hotspot.name = `Link → Page ${link.destPage + 1}`;
+                        const { pageFrames, pendingNavigations } = recordFor(importId);
+                        const target = pageFrames.get(link.destPage);
+                        if (target && !target.removed) {
+                            await setNavigateReaction(hotspot, target);
+                        } else {
+                            pendingNavigations.push({ node: hotspot, destPage: link.destPage });
                         }
+                    } else if (link.url) {
+                        hotspot.name = `Link → ${link.url}`;
+                        await hotspot.setReactionsAsync([{
+                            trigger: { type: 'ON_CLICK' },
+                            actions: [{ type: 'URL', url: link.url }]
+                        }]);
                     }
+                } catch (err) {
+                    console.warn("Failed to apply link", link, err);
+                }
+            }
 
-                    text.fontName = chosenFont;
-
-                    // Coordinate Mapping - TOP ALIGN APPROACH
-                    // text.y = data.height - (item.y + item.height); 
-                    text.x = item.x;
-                    // Standard Baseline to Top conversion:
-                    // Top = BaselineY + (0.8 * FontSize)
-                    // FigmaY = PageHeight - Top
-                    // FigmaY = PageHeight - (item.y + (item.fontSize * 0.9)); // Increased to 0.9 to push it up (prevent overlap below)
-
-                    text.y = data.height - item.y - (item.fontSize * 0.95);
-
-                    // Box Control
-                    if (item.lines && item.lines.length > 1) {
-                        // Multi-line Paragraph -> Fixed Width / Auto Height
-                        text.textAutoResize = "HEIGHT";
-                        text.resize(item.width, item.fontSize * item.lines.length * 1.2); // Initial height guess
-                    } else {
-                        // Single Line -> Point Text (Auto Width)
-                        text.textAutoResize = "WIDTH_AND_HEIGHT";
-                    }
+            if (hotspots.length > 0) {
+                const group = figma.group(hotspots, frame);
+                group.name = "Links";
+            }
+        }
 
-                    // Layout Fidelity Improvements
-                    // 0. Alignment (New)
-                    if (item.textAlign) {
-                        text.textAlignHorizontal = item.textAlign;
-                    }
+        await resolvePendingNavigations(recordFor(importId).pendingNavigations, index, frame);
+    };
 
-                    // 1. Line Height
-                    // Priority: Calculated (PDF Y-delta) > CSS Computed > Auto
-                    if (item.lineHeight) {
-                        text.lineHeight = { value: item.lineHeight, unit: 'PIXELS' };
-                    }
+    figma.currentPage.appendChild(frame);
+    figma.viewport.scrollAndZoomIntoView([frame]);
 
-                    // 2. Letter Spacing
-                    // Computed style gives px. Figma uses pixels (or %).
-                    if (item.letterSpacing) {
-                        text.letterSpacing = { value: item.letterSpacing, unit: 'PIXELS' };
-                    } else {
-                        // Default tight tracking if none found 
-                        text.letterSpacing = { value: -0.5, unit: 'PERCENT' };
-                    }
+    // Acknowledge only once the layers exist, so the UI reports real completion
+    try {
+        await processItems();
 
-                    // 3. Color & Opacity
-                    // We need to parse color string and apply opacity
-                    const fills: SolidPaint[] = [];
-                    if (item.color) {
-                        try {
-                            const rgbMatch = item.color.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
-                            if (rgbMatch) {
-                                const r = parseInt(rgbMatch[1]) / 255;
-                                const g = parseInt(rgbMatch[2]) / 255;
-                                const b = parseInt(rgbMatch[3]) / 255;
-                                fills.push({
-                                    type: 'SOLID',
-                                    color: { r, g, b },
-                                    opacity: item.opacity !== undefined ? item.opacity : 1
-                                });
-                            }
-                        } catch (e) {
-                            // Keep default
-                            fills.push({ type: 'SOLID', color: { r: 0, g: 0, b: 0 } });
-                        }
-                    } else {
-                        fills.push({ type: 'SOLID', color: { r: 0, g: 0, b: 0 } });
-                    }
-                    text.fills = fills;
-
-                    // 4. Strokes
-                    if (item.stroke) {
-                        try {
-                            const strokeRgb = item.stroke.color.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
-                            if (strokeRgb) {
-                                const r = parseInt(strokeRgb[1]) / 255;
-                                const g = parseInt(strokeRgb[2]) / 255;
-                                const b = parseInt(strokeRgb[3]) / 255;
-                                text.strokes = [{
-                                    type: 'SOLID',
-                                    color: { r, g, b },
-                                    opacity: item.stroke.opacity
-                                }];
-                                text.strokeWeight = item.stroke.width;
-                            }
-                        } catch (e) {
-                            console.warn("Stroke parsing failed", e);
-                        }
-                    }
+        if (isCancelled()) {
+            frame.remove();
+            importRecords.get(importId)?.pageFrames.delete(index);
+            return;
+        }
+        postToUI({ type: 'page-done', importId, index });
+    } catch (e) {
+        console.error("Item creation failed", e);
+        const error = e instanceof Error ? e.message : String(e);
+        try {
+            await showPageError(frame, index + 1, error);
+        } catch (noteError) {
+            console.error("Error note creation failed", noteError);
+        }
+        postToUI({ type: 'page-failed', importId, index, error });
+    }
+};
 
-                    frame.appendChild(text);
-                }
-            }
-        };
+figma.ui.onmessage = async (msg: UIMessage) => {
+    if (msg.type === 'create-rectangles') {
+        const nodes: SceneNode[] = [];
+        for (let i = 0; i < msg.count; i++) {
+            const rect = figma.createRectangle();
+            rect.x = i * 150;
+            rect.fills = [{ type: 'SOLID', color: { r: 1, g: 0.5, b: 0 } }];
+            figma.currentPage.appendChild(rect);
+            nodes.push(rect);
+        }
+        figma.currentPage.selection = nodes;
+        figma.viewport.scrollAndZoomIntoView(nodes);
+    }
 
-        processItems().catch(e => console.error("Item creation failed", e));
-        figma.currentPage.appendChild(frame);
-        figma.viewport.scrollAndZoomIntoView([frame]);
+    if (msg.type === 'create-placeholder') {
+        enqueueBuild(() => createPlaceholder(msg));
     }
 
+    if (msg.type === 'create-page') {
+        enqueueBuild(() => createPage(msg));
+    }
+
+    // Stop building pages for an import the user cancelled (already finished pages stay)
     if (msg.type === 'cancel') {
-        figma.closePlugin();
+        const { importId } = msg;
+        cancelledImports.add(importId);
+        importRecords.delete(importId);
+        // The UI sends nothing for the import after its cancel, so this runs after its last build
+        enqueueBuild(async () => { cancelledImports.delete(importId); });
+    }
+
+    if (msg.type === 'finish-import') {
+        enqueueBuild(() => finishImport(msg));
+    }
+
+    if (msg.type === 'check-fonts') {
+        try {
+            const [fonts, families] = await Promise.all([checkFonts(msg.fonts), listAvailableFamilies()]);
+            postToUI({ type: 'fonts-checked', importId: msg.importId, fonts, families });
+        } catch (e) {
+            // Never block the import on the check
+            console.error("Font check failed", e);
+            postToUI({ type: 'fonts-checked', importId: msg.importId, fonts: [], families: [] });
+        }
+    }
+
+    // Queued so pages sent after the panel already use the new mappings
+    if (msg.type === 'save-font-mappings') {
+        enqueueBuild(() => saveFontMappings(msg.mappings));
     }
 };
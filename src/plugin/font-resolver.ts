@@ -0,0 +1,247 @@
+// Maps PDF fonts to fonts available in Figma.
+// PostScript names are parsed into family, weight, italic and width ("ABCDEF+HelveticaNeue-CondensedBold"
+// -> Helvetica Neue, 700, condensed), matched against figma.listAvailableFontsAsync() by normalized
+// family name, and the closest style of the matched family is picked. Families the user mapped in the
+// missing-fonts panel take precedence; the table persists in clientStorage across imports.
+
+export type FontWidth = 'normal' | 'condensed' | 'expanded';
+
+export interface ParsedFont {
+    family: string; // Display family, e.g. "Times New Roman"
+    weight: number; // 100-950
+    italic: boolean;
+    width: FontWidth;
+    candidates: string[]; // Family names to try, most specific first
+}
+
+// Source family (as parsed from the PDF) -> Figma family
+export type FontMappings = Record<string, string>;
+
+// Paragraph or run style as produced by the grouper
+export interface FontSource {
+    rawFontName?: string;
+    fontFamily: string;
+    fontWeight: string | number;
+    fontStyle: string;
+}
+
+export interface FontResolution {
+    font: FontName;
+    source: string; // Family the PDF asked for
+    missing: boolean; // Neither matched nor mapped: fell back to Inter
+}
+
+// One source family in the missing-fonts panel
+export interface FontCheck {
+    family: string;
+    fonts: string[]; // PostScript names of the family used by the document
+    match?: string; // Figma family found automatically
+    mapped?: string; // Replacement chosen earlier by the user
+}
+
+const FALLBACK_FAMILY = 'Inter';
+const MAPPINGS_KEY = 'font-mappings';
+
+type StyleToken = { weight?: number, italic?: boolean, width?: FontWidth, ignore?: boolean };
+
+// Longest tokens first so "semibold" wins over "bold"
+const STYLE_TOKENS: Array<[string, StyleToken]> = ([
+    ['extralight', { weight: 200 }], ['ultralight', { weight: 200 }],
+    ['semicondensed', { width: 'condensed' }], ['semiexpanded', { width: 'expanded' }],
+    ['extrablack', { weight: 950 }], ['ultrablack', { weight: 950 }],
+    ['extrabold', { weight: 800 }], ['ultrabold', { weight: 800 }],
+    ['semibold', { weight: 600 }], ['demibold', { weight: 600 }],
+    ['compressed', { width: 'condensed' }], ['condensed', { width: 'condensed' }],
+    ['extended', { width: 'expanded' }], ['expanded', { width: 'expanded' }],
+    ['hairline', { weight: 100 }], ['regular', { weight: 400 }],
+    ['oblique', { italic: true }], ['italic', { italic: true }],
+    ['medium', { weight: 500 }], ['normal', { weight: 400 }],
+    ['narrow', { width: 'condensed' }], ['black', { weight: 900 }],
+    ['heavy', { weight: 900 }], ['light', { weight: 300 }],
+    ['roman', { weight: 400 }], ['plain', { weight: 400 }],
+    ['thin', { weight: 100 }], ['bold', { weight: 700 }],
+    ['book', { weight: 400 }], ['cond', { width: 'condensed' }],
+    ['psmt', { ignore: true }], ['blk', { weight: 900 }],
+    ['std', { ignore: true }], ['mt', { ignore: true }],
+    ['ps', { ignore: true }], ['bd', { weight: 700 }],
+    ['md', { weight: 500 }], ['it', { italic: true }],
+    ['cn', { width: 'condensed' }]
+] as Array<[string, StyleToken]>).sort((a, b) => b[0].length - a[0].length);
+
+// Foundry/format suffixes that are not part of the family name Figma knows
+const VENDOR_SUFFIXES = ['psmt', 'mt', 'ps', 'std', 'lt', 'com'];
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// "TimesNewRomanPS" -> ["Times", "New", "Roman", "PS"]
+const splitWords = (name: string) => name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[\s_]+/)
+    .filter(Boolean);
+
+// Reads weight/italic/width tokens out of a style string such as "SemiBoldItalic" or "Condensed Bold".
+// Returns null when the string contains anything that is not a style token.
+const parseStyle = (style: string) => {
+    const parsed = { weight: 400, italic: false, width: 'normal' as FontWidth };
+    let rest = style.toLowerCase().replace(/[^a-z]/g, '');
+    while (rest) {
+        const match = STYLE_TOKENS.find(([token]) => rest.startsWith(token));
+        if (!match) return null;
+        const [token, effect] = match;
+        if (effect.weight !== undefined) parsed.weight = effect.weight;
+        if (effect.italic) parsed.italic = true;
+        if (effect.width) parsed.width = effect.width;
+        rest = rest.slice(token.length);
+    }
+    return parsed;
+};
+
+export const parsePostScriptName = (psName: string): ParsedFont => {
+    // Subset prefix: six uppercase letters and "+"
+    const name = psName.replace(/^[A-Z]{6}\+/, '');
+    const separator = name.search(/[-,]/);
+    const familyPart = separator >= 0 ? name.slice(0, separator) : name;
+    const stylePart = separator >= 0 ? name.slice(separator + 1) : '';
+
+    const style = parseStyle(stylePart) || { weight: 400, italic: false, width: 'normal' as FontWidth };
+    const words = splitWords(familyPart);
+
+    let familyWords = [...words];
+    while (familyWords.length > 1 && VENDOR_SUFFIXES.includes(familyWords[familyWords.length - 1].toLowerCase())) {
+        familyWords = familyWords.slice(0, -1);
+    }
+
+    // Peel vendor suffixes and style words off the end ("ArialBoldMT", "RobotoCondensed"), keeping
+    // every intermediate family as a candidate: "Roboto Condensed" is a family of its own
+    const candidates = [words.join(' ')];
+    let peeled = [...words];
+    while (peeled.length > 1) {
+        const last = peeled[peeled.length - 1].toLowerCase();
+        const token = parseStyle(last);
+        if (!VENDOR_SUFFIXES.includes(last) && !token) break;
+        if (token && !stylePart) {
+            // Style words in the family only count when the name has no explicit style part
+            if (token.weight !== 400) style.weight = token.weight;
+            if (token.italic) style.italic = true;
+            if (token.width !== 'normal') style.width = token.width;
+        }
+        peeled = peeled.slice(0, -1);
+        candidates.push(peeled.join(' '));
+    }
+
+    return { family: familyWords.join(' '), ...style, candidates };
+};
+
+let availableFonts: Promise<Map<string, { family: string, styles: string[] }>> | null = null;
+
+// Normalized family -> family and its styles. Listed once per plugin session.
+const listFamilies = () => {
+    if (!availableFonts) {
+        availableFonts = figma.listAvailableFontsAsync().then(fonts => {
+            const families = new Map<string, { family: string, styles: string[] }>();
+            for (const { fontName } of fonts) {
+                const key = normalize(fontName.family);
+                if (!families.has(key)) families.set(key, { family: fontName.family, styles: [] });
+                families.get(key)!.styles.push(fontName.style);
+            }
+            return families;
+        });
+    }
+    return availableFonts;
+};
+
+export const listAvailableFamilies = async () =>
+    [...(await listFamilies()).values()].map(entry => entry.family).sort((a, b) => a.localeCompare(b));
+
+export const loadFontMappings = async (): Promise<FontMappings> =>
+    (await figma.clientStorage.getAsync(MAPPINGS_KEY)) || {};
+
+export const saveFontMappings = async (mappings: FontMappings) => {
+    // Only keep real substitutions; an empty value resets the family to automatic matching
+    const cleaned: FontMappings = {};
+    for (const [source, target] of Object.entries({ ...(await loadFontMappings()), ...mappings })) {
+        if (target) cleaned[source] = target;
+    }
+    await figma.clientStorage.setAsync(MAPPINGS_KEY, cleaned);
+};
+
+// Closest style of a family: italic must match first, then width, then the nearest weight
+const closestStyle = (styles: string[], target: { weight: number, italic: boolean, width: FontWidth }) => {
+    let best = styles[0];
+    let bestScore = Infinity;
+    for (const style of styles) {
+        const parsed = parseStyle(style);
+        if (!parsed) continue; // Unusual styles ("Display", "Outline") only as a last resort
+        const score = (parsed.italic !== target.italic ? 10000 : 0) +
+            (parsed.width !== target.width ? 1000 : 0) +
+            Math.abs(parsed.weight - target.weight);
+        if (score < bestScore) {
+            best = style;
+            bestScore = score;
+        }
+    }
+    return best;
+};
+
+// Pre-import check of a document's fonts (PostScript names), one entry per source family
+export const checkFonts = async (psNames: string[]): Promise<FontCheck[]> => {
+    const families = await listFamilies();
+    const mappings = await loadFontMappings();
+    const checks = new Map<string, FontCheck>();
+
+    for (const psName of psNames) {
+        const parsed = parsePostScriptName(psName);
+        let check = checks.get(parsed.family);
+        if (!check) {
+            const match = parsed.candidates
+                .map(candidate => families.get(normalize(candidate))?.family)
+                .find(Boolean);
+            check = { family: parsed.family, fonts: [], match, mapped: mappings[parsed.family] };
+            checks.set(parsed.family, check);
+        }
+        if (!check.fonts.includes(psName)) check.fonts.push(psName);
+    }
+    return [...checks.values()].sort((a, b) => a.family.localeCompare(b.family));
+};
+
+// Resolves paragraph/run styles to loadable FontNames. Create one per page build; results are memoized.
+export const createFontResolver = async () => {
+    const families = await listFamilies();
+    const mappings = await loadFontMappings();
+    const cache = new Map<string, FontResolution>();
+
+    const pick = (family: string, target: { weight: number, italic: boolean, width: FontWidth }) => {
+        const entry = families.get(normalize(family));
+        return entry ? { family: entry.family, style: closestStyle(entry.styles, target) } : null;
+    };
+
+    return (source: FontSource): FontResolution => {
+        const key = [source.rawFontName, source.fontFamily, source.fontWeight, source.fontStyle].join('|');
+        const cached = cache.get(key);
+        if (cached) return cached;
+
+        // Weight and italic from the text layer CSS, refined by the PostScript name when there is one
+        const cssWeight = source.fontWeight === 'bold' ? 700 : Number(source.fontWeight) || 400;
+        const parsed = source.rawFontName ? parsePostScriptName(source.rawFontName) : null;
+        const target = parsed
+            ? { weight: parsed.weight !== 400 ? parsed.weight : cssWeight, italic: parsed.italic || source.fontStyle === 'italic', width: parsed.width }
+            : { weight: cssWeight, italic: source.fontStyle === 'italic', width: 'normal' as FontWidth };
+        const sourceFamily = parsed?.family || source.fontFamily;
+
+        let font: FontName | null = null;
+        const mapped = mappings[sourceFamily];
+        if (mapped) font = pick(mapped, target);
+        for (const candidate of parsed?.candidates || []) {
+            if (font) break;
+            font = pick(candidate, target);
+        }
+        if (!font) font = pick(source.fontFamily, target);
+
+        const resolution = font
+            ? { font, source: sourceFamily, missing: false }
+            : { font: pick(FALLBACK_FAMILY, target) || { family: FALLBACK_FAMILY, style: 'Regular' }, source: sourceFamily, missing: true };
+        cache.set(key, resolution);
+        return resolution;
+    };
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { placeImage } from './image-placement';
+
+const PAGE_HEIGHT = 500;
+
+// Where a node-local point lands in the frame
+const toFrame = (m: Transform, u: number, v: number) => [m[0][0] * u + m[0][1] * v + m[0][2], m[1][0] * u + m[1][1] * v + m[1][2]];
+
+// Where PDF draws the same point of the image: unit square (s, t), row 0 at t = 1, then y flipped to the frame
+const expected = (t: number[], s: number, r: number) => [t[0] * s + t[2] * r + t[4], PAGE_HEIGHT - (t[1] * s + t[3] * r + t[5])];
+
+const round = (p: number[]) => p.map(n => Math.round(n * 1000) / 1000 + 0); // + 0 drops -0
+const det = (m: Transform) => m[0][0] * m[1][1] - m[0][1] * m[1][0];
+
+describe('placeImage', () => {
+    it('places an upright image by its top-left corner', () => {
+        const { width, height, relativeTransform } = placeImage([100, 0, 0, 50, 10, 20], PAGE_HEIGHT);
+        expect([width, height]).toEqual([100, 50]);
+        expect(relativeTransform.map(round)).toEqual([[1, 0, 10], [0, 1, 430]]);
+    });
+
+    // 100 x 50 image with its bottom-left corner at (200, 300) in upright page space
+    it.each([
+        ['rotated 0°', [100, 0, 0, 50, 200, 300], 1],
+        ['rotated 90°', [0, 100, -50, 0, 200, 300], 1],
+        ['rotated 180°', [-100, 0, 0, -50, 200, 300], 1],
+        ['rotated 270°', [0, -100, 50, 0, 200, 300], 1],
+        ['flipped horizontally', [-100, 0, 0, 50, 200, 300], -1],
+        ['flipped vertically', [100, 0, 0, -50, 200, 300], -1],
+        ['rotated 30° and flipped', [86.603, 50, 25, -43.301, 200, 300], -1],
+        ['skewed', [100, 0, 20, 50, 200, 300], 1]
+    ])('maps every corner of an image %s', (_, transform, handedness) => {
+        const { width, height, relativeTransform } = placeImage(transform as number[], PAGE_HEIGHT);
+        for (const [u, v] of [[0, 0], [width, 0], [0, height], [width, height]]) {
+            expect(round(toFrame(relativeTransform, u, v))).toEqual(round(expected(transform as number[], u / width, 1 - v / height)));
+        }
+        // Mirrored images must stay mirrored in Figma
+        expect(Math.sign(det(relativeTransform))).toBe(handedness);
+    });
+
+    it('keeps the side lengths of a skewed image', () => {
+        const { width, height } = placeImage([100, 0, 30, 40, 0, 0], PAGE_HEIGHT);
+        expect([width, height]).toEqual([100, 50]);
+    });
+
+    it('never produces a zero-sized node', () => {
+        const { width, height } = placeImage([0, 0, 0, 0, 10, 10], PAGE_HEIGHT);
+        expect(width).toBeGreaterThan(0);
+        expect(height).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,26 @@
+// Places an extracted image in its frame. PDF draws every image into the unit square, and `transform`
+// (from the worker) maps that square to upright page space (y up) with pixel row 0 at the top edge (t = 1).
+// Figma local (u, v) in [0, w] x [0, h] is (s, t) = (u / w, 1 - v / h) there, flipped to the frame as
+// (x, pageHeight - y). Rotation, skew and flips (negative determinant) all go through the one matrix.
+
+export interface ImagePlacement {
+    width: number;
+    height: number;
+    relativeTransform: Transform;
+}
+
+const MIN_SIZE = 0.01; // Figma rejects zero-sized nodes
+
+export function placeImage(transform: number[], pageHeight: number): ImagePlacement {
+    const [a, b, c, d, tx, ty] = transform;
+    const width = Math.max(Math.hypot(a, b), MIN_SIZE);
+    const height = Math.max(Math.hypot(c, d), MIN_SIZE);
+    return {
+        width,
+        height,
+        relativeTransform: [
+            [a / width, -c / height, tx + c],
+            [-b / width, d / height, pageHeight - ty - d]
+        ]
+    };
+}
@@ -0,0 +1,120 @@
+// Turns the ad-hoc text settings of an import into local text styles.
+// Text is clustered per styled segment (so a bold word inside body copy becomes "Body Bold"
+// rather than restyling its whole paragraph), then each range is bound to its cluster's style.
+
+export interface ImportedText {
+    node: TextNode;
+    structRole?: string; // Structure role of the source paragraph (tagged PDFs)
+}
+
+interface Cluster {
+    fontName: FontName;
+    fontSize: number;
+    lineHeight: LineHeight;
+    letterSpacing: LetterSpacing;
+    characters: number; // Frequency weight
+    roles: Map<string, number>;
+    ranges: Array<{ node: TextNode, start: number, end: number }>;
+}
+
+const ROLE_NAMES: Record<string, string> = {
+    H: 'Heading',
+    H1: 'Heading 1',
+    H2: 'Heading 2',
+    H3: 'Heading 3',
+    H4: 'Heading 4',
+    H5: 'Heading 5',
+    H6: 'Heading 6',
+    P: 'Body',
+    L: 'List',
+    LI: 'List',
+    Table: 'Table',
+    Figure: 'Figure'
+};
+
+const clusterKey = (segment: Pick<Cluster, 'fontName' | 'fontSize' | 'lineHeight' | 'letterSpacing'>) => {
+    const { fontName, fontSize, lineHeight, letterSpacing } = segment;
+    const round = (value: number) => Math.round(value * 2) / 2; // Half-point buckets absorb PDF rounding noise
+    const line = lineHeight.unit === 'AUTO' ? 'auto' : `${round(lineHeight.value)}${lineHeight.unit}`;
+    return [fontName.family, fontName.style, round(fontSize), line, `${round(letterSpacing.value)}${letterSpacing.unit}`].join('|');
+};
+
+// Groups are named after the dominant structure role when the PDF is tagged, otherwise by size
+// relative to the most used cluster: larger ones become headings (largest first), smaller ones captions.
+const nameClusters = (clusters: Cluster[]) => {
+    const body = clusters.reduce((a, b) => (b.characters > a.characters ? b : a));
+    const headings = clusters
+        .filter(cluster => cluster.fontSize > body.fontSize + 0.5)
+        .sort((a, b) => b.fontSize - a.fontSize);
+
+    const names = new Map<Cluster, string>();
+    const used = new Set<string>();
+    for (const cluster of [...clusters].sort((a, b) => b.characters - a.characters)) {
+        const role = [...cluster.roles.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+        let name = role && ROLE_NAMES[role];
+        if (!name) {
+            if (headings.includes(cluster)) name = `Heading ${headings.indexOf(cluster) + 1}`;
+            else if (cluster.fontSize < body.fontSize - 0.5) name = 'Caption';
+            else name = 'Body';
+        }
+
+        // Variants of the same level (bold run-ins, other families) keep the level name plus their style
+        if (used.has(name)) name = `${name} ${cluster.fontName.style}`;
+        let unique = name;
+        for (let n = 2; used.has(unique); n++) unique = `${name} ${n}`;
+        used.add(unique);
+        names.set(cluster, unique);
+    }
+    return names;
+};
+
+// Creates one local text style per cluster under `folder` and binds the text to it. Returns the style count.
+export const createTextStyles = async (texts: ImportedText[], folder: string) => {
+    const clusters = new Map<string, Cluster>();
+
+    for (const { node, structRole } of texts) {
+        if (node.removed) continue;
+        const segments = node.getStyledTextSegments(['fontName', 'fontSize', 'lineHeight', 'letterSpacing']);
+        for (const segment of segments) {
+            const key = clusterKey(segment);
+            let cluster = clusters.get(key);
+            if (!cluster) {
+                cluster = {
+                    fontName: segment.fontName,
+                    fontSize: segment.fontSize,
+                    lineHeight: segment.lineHeight,
+                    letterSpacing: segment.letterSpacing,
+                    characters: 0,
+                    roles: new Map(),
+                    ranges: []
+                };
+                clusters.set(key, cluster);
+            }
+            const length = segment.end - segment.start;
+            cluster.characters += length;
+            if (structRole) cluster.roles.set(structRole, (cluster.roles.get(structRole) || 0) + length);
+            cluster.ranges.push({ node, start: segment.start, end: segment.end });
+        }
+    }
+    if (clusters.size === 0) return 0;
+
+    const names = nameClusters([...clusters.values()]);
+    for (const [cluster, name] of names) {
+        // Fonts are already loaded: every cluster comes from text that exists on the canvas
+        const style = figma.createTextStyle();
+        style.name = `${folder}/${name}`;
+        style.fontName = cluster.fontName;
+        style.fontSize = cluster.fontSize;
+        style.lineHeight = cluster.lineHeight;
+        style.letterSpacing = cluster.letterSpacing;
+
+        for (const { node, start, end } of cluster.ranges) {
+            try {
+                await node.setRangeTextStyleIdAsync(start, end, style.id);
+            } catch (e) {
+                console.warn(`Failed to bind text style ${style.name}`, e);
+            }
+        }
+    }
+    return names.size;
+};
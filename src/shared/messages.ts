@@ -0,0 +1,114 @@
+// Message protocol between the UI iframe and the plugin controller.
+// Both sides import these types; keep them free of runtime code.
+import type { FontCheck, FontMappings } from '../plugin/font-resolver';
+import type { PageData, PaletteMode } from '../ui/worker/pdf-processor';
+
+// --- UI -> Controller ---
+
+export interface CreatePageMessage {
+    type: 'create-page';
+    importId: string;
+    index: number; // 0-based PDF page index (frame names keep the original number)
+    order: number; // Slot within the imported page selection (layout position)
+    data: PageData;
+}
+
+// Sent instead of create-page when the UI could not extract a page
+export interface CreatePlaceholderMessage {
+    type: 'create-placeholder';
+    importId: string;
+    index: number;
+    order: number;
+    error: string;
+}
+
+export interface CancelMessage {
+    type: 'cancel';
+    importId: string;
+}
+
+// Sent once every page of an import has been acknowledged (not after a cancel)
+export interface FinishImportMessage {
+    type: 'finish-import';
+    importId: string;
+    textStyles: boolean; // Cluster the imported text into local text styles
+    palette: PaletteMode; // Collect the imported colors into paint styles or variables
+    documentName: string; // Folder name for the created styles and variable collection
+}
+
+// Pre-import: match the document's fonts against the fonts available in Figma
+export interface CheckFontsMessage {
+    type: 'check-fonts';
+    importId: string;
+    fonts: string[]; // PostScript names
+}
+
+// Replacements picked in the missing-fonts panel, persisted for later imports
+export interface SaveFontMappingsMessage {
+    type: 'save-font-mappings';
+    mappings: FontMappings;
+}
+
+export interface CreateRectanglesMessage {
+    type: 'create-rectangles';
+    count: number;
+}
+
+export type UIMessage =
+    | CreatePageMessage
+    | CreatePlaceholderMessage
+    | CancelMessage
+    | FinishImportMessage
+    | CheckFontsMessage
+    | SaveFontMappingsMessage
+    | CreateRectanglesMessage;
+
+// --- Controller -> UI ---
+
+// Layer creation steps reported while the controller builds a page
+export type BuildStage = 'background' | 'images' | 'vectors' | 'fonts' | 'text' | 'tables' | 'links';
+
+export interface ProgressMessage {
+    type: 'progress';
+    importId: string;
+    index: number;
+    stage: BuildStage;
+}
+
+// The page's layers exist on the canvas
+export interface PageDoneMessage {
+    type: 'page-done';
+    importId: string;
+    index: number;
+}
+
+// The page was replaced by a placeholder frame with an error note
+export interface PageFailedMessage {
+    type: 'page-failed';
+    importId: string;
+    index: number;
+    error: string;
+}
+
+// Reply to finish-import once the document-wide steps are done
+export interface ImportFinishedMessage {
+    type: 'import-finished';
+    importId: string;
+    textStyles: number; // Number of text styles created
+    colors: number; // Number of palette colors created
+}
+
+// Reply to check-fonts
+export interface FontsCheckedMessage {
+    type: 'fonts-checked';
+    importId: string;
+    fonts: FontCheck[];
+    families: string[]; // Every family available in Figma, for the replacement pickers
+}
+
+export type ControllerMessage =
+    | ProgressMessage
+    | PageDoneMessage
+    | PageFailedMessage
+    | ImportFinishedMessage
+    | FontsCheckedMessage;
@@ -1,61 +1,295 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { nanoid } from 'nanoid';
 import { Dropzone } from './components/Dropzone';
+import { ImportProgress, ImportProgressState } from './components/ImportProgress';
 import { ImportSettings } from './components/ImportSettings';
-import { PDFProcessor } from './worker/pdf-processor';
+import { MissingFonts } from './components/MissingFonts';
+import { PasswordPrompt } from './components/PasswordPrompt';
+import { ImportSettings as Settings, PasswordCancelledError, PDFProcessor } from './worker/pdf-processor';
+import type { ControllerMessage, FontsCheckedMessage, UIMessage } from '../shared/messages';
+import type { FontMappings } from '../plugin/font-resolver';
 
-type Step = 'dropzone' | 'settings' | 'processing' | 'complete';
+type Step = 'dropzone' | 'password' | 'settings' | 'fonts' | 'processing' | 'complete';
+
+interface PageResult {
+    index: number;
+    status: 'done' | 'failed' | 'cancelled';
+    error?: string;
+}
+
+// Document-wide results reported by the controller after the last page
+interface FinishSummary {
+    textStyles: number;
+    colors: number;
+}
+
+const NOTHING_CREATED: FinishSummary = { textStyles: 0, colors: 0 };
+
+// Pages extracted and sent but not yet acknowledged by the controller.
+// Bounds memory and keeps the Figma main thread from being flooded.
+const MAX_PAGES_IN_FLIGHT = 2;
+
+const postToController = (message: UIMessage) => parent.postMessage({ pluginMessage: message }, '*');
 
 const App = () => {
     const [step, setStep] = useState<Step>('dropzone');
     const [file, setFile] = useState<File | null>(null);
+    const [processor, setProcessor] = useState<PDFProcessor | null>(null);
+    const [numPages, setNumPages] = useState(0);
+    const [restrictions, setRestrictions] = useState<string[]>([]);
+    const [passwordIncorrect, setPasswordIncorrect] = useState(false);
+    // Pending PDF.js password callback, resolved by the password step
+    const passwordResolver = useRef<((password: string | null) => void) | null>(null);
+
+    const [progress, setProgress] = useState<ImportProgressState | null>(null);
+    const [results, setResults] = useState<PageResult[]>([]);
+    const [cancelling, setCancelling] = useState(false);
+    const importIdRef = useRef<string | null>(null);
+    const cancelRequested = useRef(false);
+    // Pages sent to the controller that have not been acknowledged yet
+    const ackResolvers = useRef(new Map<number, (result: PageResult) => void>());
+    // Pending finish-import reply
+    const finishResolver = useRef<((summary: FinishSummary) => void) | null>(null);
+    const [finishSummary, setFinishSummary] = useState<FinishSummary>(NOTHING_CREATED);
+    // Pre-import font check: the controller's reply, then the user's choice in the panel (null = back)
+    const fontCheckResolver = useRef<((result: FontsCheckedMessage) => void) | null>(null);
+    const fontPanelResolver = useRef<((mappings: FontMappings | null) => void) | null>(null);
+    const [fontCheck, setFontCheck] = useState<FontsCheckedMessage | null>(null);
+
+    const updateProgress = (update: (prev: ImportProgressState) => Partial<ImportProgressState>) => {
+        setProgress(prev => prev && { ...prev, ...update(prev) });
+    };
 
-    const handleFileSelect = (selectedFile: File) => {
+    const waitForAck = (index: number) => new Promise<PageResult>(resolve => {
+        ackResolvers.current.set(index, resolve);
+    });
+
+    // The controller acknowledges each page once its layers exist (or it failed)
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const msg = event.data?.pluginMessage as ControllerMessage | undefined;
+            if (!msg || msg.importId !== importIdRef.current) return;
+
+            if (msg.type === 'progress') {
+                updateProgress(() => ({ building: { pageNumber: msg.index + 1, stage: msg.stage } }));
+                return;
+            }
+            if (msg.type === 'import-finished') {
+                finishResolver.current?.({ textStyles: msg.textStyles, colors: msg.colors });
+                finishResolver.current = null;
+                return;
+            }
+            if (msg.type === 'fonts-checked') {
+                fontCheckResolver.current?.(msg);
+                fontCheckResolver.current = null;
+                return;
+            }
+
+            const resolve = ackResolvers.current.get(msg.index);
+            if (!resolve) return;
+            ackResolvers.current.delete(msg.index);
+            if (msg.type === 'page-done') {
+                resolve({ index: msg.index, status: 'done' });
+            } else {
+                resolve({ index: msg.index, status: 'failed', error: msg.error });
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    const requestPassword = (incorrect: boolean) => new Promise<string | null>(resolve => {
+        passwordResolver.current = resolve;
+        setPasswordIncorrect(incorrect);
+        setStep('password');
+    });
+
+    const resolvePassword = (password: string | null) => {
+        passwordResolver.current?.(password);
+        passwordResolver.current = null;
+    };
+
+    const handleFileSelect = async (selectedFile: File) => {
         setFile(selectedFile);
-        setStep('settings');
+        // Load up front so the settings step can show page thumbnails
+        const pdf = new PDFProcessor();
+
+        try {
+            const arrayBuffer = await selectedFile.arrayBuffer();
+
+            console.log("Loading PDF...");
+            const pageCount = await pdf.load(arrayBuffer, requestPassword);
+            console.log(`PDF Loaded with ${pageCount} pages.`);
+            const pdfRestrictions = await pdf.getRestrictions();
+
+            setProcessor(pdf);
+            setNumPages(pageCount);
+            setRestrictions(pdfRestrictions);
+            setStep('settings');
+        } catch (error) {
+            // Leave the password step too when loading fails after it
+            pdf.destroy();
+            setFile(null);
+            setStep('dropzone');
+            if (error instanceof PasswordCancelledError) return;
+            console.error("Error loading PDF:", error);
+            alert("Failed to open PDF. See console for details.");
+        }
     };
 
     const handleCancel = () => {
+        processor?.destroy();
+        setProcessor(null);
         setFile(null);
         setStep('dropzone');
     };
 
-    const handleImport = async (settings: any) => {
-        if (!file) return;
+    // Shows the missing-fonts panel when the document uses fonts Figma lacks (or that were remapped before).
+    // Resolves with the PostScript names still unavailable, or null when the user goes back to the settings.
+    const confirmFonts = async (importId: string, pages: number[]): Promise<string[] | null> => {
+        if (!processor) return null;
+        setFontCheck(null);
+        setStep('fonts');
+
+        const checked = new Promise<FontsCheckedMessage>(resolve => { fontCheckResolver.current = resolve; });
+        postToController({ type: 'check-fonts', importId, fonts: await processor.getDocumentFonts(pages) });
+        const result = await checked;
+        if (!result.fonts.some(font => !font.match || font.mapped)) return [];
+
+        const chosen = new Promise<FontMappings | null>(resolve => { fontPanelResolver.current = resolve; });
+        setFontCheck(result);
+        const mappings = await chosen;
+        if (!mappings) return null;
+
+        postToController({ type: 'save-font-mappings', mappings });
+        return result.fonts
+            .filter(font => !font.match && !mappings[font.family])
+            .reduce<string[]>((names, font) => names.concat(font.fonts), []);
+    };
+
+    const resolveFontPanel = (mappings: FontMappings | null) => {
+        fontPanelResolver.current?.(mappings);
+        fontPanelResolver.current = null;
+    };
+
+    const handleImport = async (chosenSettings: Settings) => {
+        if (!file || !processor) return;
+
+        let settings = chosenSettings;
+        const { pages } = settings;
+        const importId = nanoid();
+        importIdRef.current = importId;
+
+        if (settings.mode !== 'image') {
+            try {
+                const unavailableFonts = await confirmFonts(importId, pages);
+                if (!unavailableFonts) {
+                    setStep('settings');
+                    return;
+                }
+                settings = { ...settings, unavailableFonts };
+            } catch (error) {
+                // The check is advisory; unresolved fonts still fall back to Inter
+                console.warn("Font check failed", error);
+            }
+        }
+        cancelRequested.current = false;
+        setCancelling(false);
+        processor.beginImport();
+        setResults([]);
+        setFinishSummary(NOTHING_CREATED);
+        setProgress({ current: 0, total: pages.length, pageNumber: pages[0] + 1, completed: 0, phase: 'text' });
         setStep('processing');
 
+        const acks: Promise<PageResult>[] = [];
+        const inFlight = new Set<Promise<PageResult>>();
+
         try {
-            const arrayBuffer = await file.arrayBuffer();
-            // Static import usage
-            const processor = new PDFProcessor();
+            // Process pages one by one to avoid UI freezing
+            for (let n = 0; n < pages.length && !cancelRequested.current; n++) {
+                // Backpressure: wait for the controller before extracting more pages
+                while (inFlight.size >= MAX_PAGES_IN_FLIGHT) {
+                    await Promise.race(inFlight);
+                }
+                if (cancelRequested.current) break;
 
-            console.log("Loading PDF...");
-            const numPages = await processor.load(arrayBuffer);
-            console.log(`PDF Loaded with ${numPages} pages.`);
+                const pageIndex = pages[n];
+                console.log(`Processing page ${pageIndex + 1} (${n + 1}/${pages.length})`);
+                updateProgress(() => ({ current: n + 1, pageNumber: pageIndex + 1, phase: 'text' }));
 
-            // Process pages one by one to avoid UI freezing
-            for (let i = 0; i < numPages; i++) {
-                console.log(`Processing page ${i + 1}/${numPages}`);
-                const pageData = await processor.getPageData(i);
-
-                // Send to main thread
-                parent.postMessage({
-                    pluginMessage: {
-                        type: 'create-page',
-                        index: i,
-                        data: pageData
+                const ack: Promise<PageResult> = waitForAck(pageIndex).then(result => {
+                    inFlight.delete(ack);
+                    if (result.status !== 'cancelled') {
+                        setResults(prev => [...prev, result]);
+                        updateProgress(prev => ({ completed: prev.completed + 1 }));
                     }
-                }, '*');
+                    return result;
+                });
+                inFlight.add(ack);
+                acks.push(ack);
+
+                // index keeps the original page number, order is the slot in the imported set
+                try {
+                    const pageData = await processor.getPageData(pageIndex, settings, phase => {
+                        updateProgress(() => ({ phase }));
+                    });
+                    if (cancelRequested.current) break;
+
+                    // Send to main thread
+                    postToController({ type: 'create-page', importId, index: pageIndex, order: n, data: pageData });
+                } catch (error) {
+                    // A bad page becomes a placeholder frame, the rest keeps importing
+                    console.error(`Error processing page ${pageIndex + 1}:`, error);
+                    if (cancelRequested.current) break;
+                    const message = error instanceof Error ? error.message : String(error);
+                    postToController({ type: 'create-placeholder', importId, index: pageIndex, order: n, error: message });
+                }
+            }
+            processor.endImport();
+
+            updateProgress(() => ({ phase: 'creating' }));
+            await Promise.all(acks);
+
+            // Document-wide steps (text styles, palette) run once every page is on the canvas
+            if (!cancelRequested.current) {
+                const finished = new Promise<FinishSummary>(resolve => { finishResolver.current = resolve; });
+                postToController({
+                    type: 'finish-import',
+                    importId,
+                    textStyles: settings.textStyles,
+                    palette: settings.palette,
+                    documentName: file.name.replace(/\.pdf$/i, '')
+                });
+                setFinishSummary(await finished);
             }
 
             console.log("Processing complete.");
             setStep('complete');
         } catch (error) {
+            processor.endImport();
             console.error("Error processing PDF:", error);
             alert("Failed to process PDF. See console for details.");
             setStep('settings'); // Go back
         }
     };
 
+    const handleCancelImport = () => {
+        if (!importIdRef.current) return;
+        cancelRequested.current = true;
+        setCancelling(true);
+        postToController({ type: 'cancel', importId: importIdRef.current });
+
+        // Stop waiting for pages the controller will now discard
+        ackResolvers.current.forEach((resolve, index) => resolve({ index, status: 'cancelled' }));
+        ackResolvers.current.clear();
+        finishResolver.current?.(NOTHING_CREATED);
+        finishResolver.current = null;
+    };
+
+    const failedPages = results.filter(result => result.status === 'failed');
+    const importedCount = results.length - failedPages.length;
+
     return (
         <div style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
             <div className="header">
@@ -66,33 +300,66 @@ const App = () => {
                 <Dropzone onFileSelect={handleFileSelect} />
             )}
 
-            {step === 'settings' && file && (
+            {step === 'password' && file && (
+                <PasswordPrompt
+                    fileName={file.name}
+                    incorrect={passwordIncorrect}
+                    onSubmit={resolvePassword}
+                    onCancel={() => resolvePassword(null)}
+                />
+            )}
+
+            {step === 'settings' && file && processor && (
                 <ImportSettings
                     fileName={file.name}
+                    processor={processor}
+                    numPages={numPages}
+                    restrictions={restrictions}
                     onCancel={handleCancel}
                     onImport={handleImport}
                 />
             )}
 
-            {step === 'processing' && (
+            {step === 'fonts' && (fontCheck ? (
+                <MissingFonts
+                    fonts={fontCheck.fonts}
+                    families={fontCheck.families}
+                    onContinue={resolveFontPanel}
+                    onCancel={() => resolveFontPanel(null)}
+                />
+            ) : (
                 <div style={{ padding: 20, textAlign: 'center', marginTop: 40 }}>
-                    <div style={{ marginBottom: 16 }}>
-                        {/* Simple CSS Spinner */}
-                        <svg style={{ animation: 'spin 1s linear infinite' }} width="24" height="24" viewBox="0 0 24 24" fill="none">
-                            <path d="M12 4V2M12 22V20M4 12H2M22 12H20M5 5L3.5 3.5M19 5L20.5 3.5M5 19L3.5 20.5M19 19L20.5 20.5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
-                        </svg>
-                    </div>
-                    <h2>Processing...</h2>
-                    <p style={{ opacity: 0.6 }}>Check your Figma canvas.</p>
-                    <style>{`@keyframes spin { 100% { transform: rotate(360deg); } }`}</style>
+                    <p>Checking fonts…</p>
                 </div>
+            ))}
+
+            {step === 'processing' && progress && (
+                <ImportProgress progress={progress} cancelling={cancelling} onCancel={handleCancelImport} />
             )}
 
             {step === 'complete' && (
                 <div style={{ padding: 20, textAlign: 'center', marginTop: 40 }}>
-                    <h2 style={{ color: '#10B981', marginBottom: 8 }}>Import Complete!</h2>
-                    <p style={{ marginBottom: 24 }}>Your PDF has been imported to the canvas.</p>
-                    <button className="primary" onClick={() => setStep('dropzone')}>Import Another</button>
+                    {cancelling ? (
+                        <h2 style={{ marginBottom: 8 }}>Import Cancelled</h2>
+                    ) : (
+                        <h2 style={{ color: '#10B981', marginBottom: 8 }}>Import Complete!</h2>
+                    )}
+                    <p style={{ marginBottom: failedPages.length > 0 ? 12 : 24 }}>
+                        {importedCount} of {progress?.total ?? 0} pages imported to the canvas.
+                        {finishSummary.textStyles > 0 && ` ${finishSummary.textStyles} text styles created.`}
+                        {finishSummary.colors > 0 && ` ${finishSummary.colors} palette colors created.`}
+                    </p>
+                    {failedPages.length > 0 && (
+                        <div className="notice warning" style={{ marginBottom: 24, textAlign: 'left' }}>
+                            <strong>{failedPages.length} page(s) failed and were added as placeholders:</strong>
+                            <ul>
+                                {failedPages.map(result => (
+                                    <li key={result.index}>Page {result.index + 1}: {result.error}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    <button className="primary" onClick={handleCancel}>Import Another</button>
                 </div>
             )}
         </div>
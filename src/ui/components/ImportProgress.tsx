@@ -0,0 +1,79 @@
+import React from 'react';
+import { PagePhase } from '../worker/pdf-processor';
+import type { BuildStage } from '../../shared/messages';
+
+// 'creating' = everything extracted, waiting for Figma to finish building layers
+export type ImportPhase = PagePhase | 'creating';
+
+export interface ImportProgressState {
+    current: number; // 1-based position in the selected pages
+    total: number;
+    pageNumber: number; // Original PDF page number
+    completed: number; // Pages acknowledged by the controller
+    phase: ImportPhase;
+    building?: { pageNumber: number, stage: BuildStage }; // Latest controller progress report
+}
+
+interface ImportProgressProps {
+    progress: ImportProgressState;
+    cancelling: boolean;
+    onCancel: () => void;
+}
+
+const PHASE_LABELS: Record<ImportPhase, string> = {
+    text: 'Extracting text',
+    outlines: 'Outlining unavailable fonts',
+    raster: 'Rendering page image',
+    svg: 'Converting vector graphics',
+    images: 'Extracting images',
+    vectors: 'Extracting vector paths',
+    tables: 'Detecting tables',
+    links: 'Reading links',
+    creating: 'Creating layers in Figma'
+};
+
+const STAGE_LABELS: Record<BuildStage, string> = {
+    background: 'background',
+    images: 'images',
+    vectors: 'vectors',
+    fonts: 'loading fonts',
+    text: 'text',
+    tables: 'tables',
+    links: 'links'
+};
+
+export const ImportProgress: React.FC<ImportProgressProps> = ({ progress, cancelling, onCancel }) => {
+    const percent = progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+    return (
+        <div className="layout-col" style={{ padding: 20 }}>
+            <h2 style={{ marginBottom: 8 }}>Importing...</h2>
+            <p style={{ marginBottom: 16 }}>
+                Page {progress.current} of {progress.total}
+                <span style={{ opacity: 0.6 }}> (PDF page {progress.pageNumber})</span>
+            </p>
+
+            <div className="progress-bar">
+                <div className="progress-bar-fill" style={{ width: `${percent}%` }} />
+            </div>
+            <p style={{ marginTop: 8, opacity: 0.6 }}>
+                {cancelling ? 'Cancelling...' : `${PHASE_LABELS[progress.phase]} · ${progress.completed} of ${progress.total} done`}
+            </p>
+            {progress.building && !cancelling && (
+                <p style={{ opacity: 0.6 }}>
+                    Figma: building page {progress.building.pageNumber} ({STAGE_LABELS[progress.building.stage]})
+                </p>
+            )}
+
+            <div style={{ marginTop: 'auto', display: 'flex', justifyContent: 'flex-end' }}>
+                <button
+                    className="secondary"
+                    style={cancelling ? { opacity: 0.5, pointerEvents: 'none' } : undefined}
+                    onClick={onCancel}
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -1,32 +1,262 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import type { CmykConversion } from '../worker/color-spaces';
+import { DEFAULT_IMPORT_SETTINGS, ImageFormat, ImportMode, ImportSettings as Settings, PaletteMode, PDFProcessor } from '../worker/pdf-processor';
+import { formatPageRange, parsePageRange } from '../utils/page-range';
 
 interface ImportSettingsProps {
     fileName: string;
+    processor: PDFProcessor;
+    numPages: number;
+    restrictions: string[]; // Owner-permission restrictions reported by the PDF
     onCancel: () => void;
-    onImport: (settings: any) => void;
+    onImport: (settings: Settings) => void;
 }
 
-export const ImportSettings: React.FC<ImportSettingsProps> = ({ fileName, onCancel, onImport }) => {
+const MODES: Array<{ value: ImportMode, label: string, description: string }> = [
+    { value: 'editable', label: 'Editable', description: 'Text, vectors and images as separate layers' },
+    { value: 'image', label: 'Flattened Image', description: 'One image per page' },
+    { value: 'hybrid', label: 'Hybrid', description: 'Locked page image with editable text on top' }
+];
+
+const DPI_OPTIONS = [72, 144, 216, 288];
+
+const PALETTE_OPTIONS: Array<{ value: PaletteMode, label: string }> = [
+    { value: 'none', label: 'Keep as raw colors' },
+    { value: 'styles', label: 'Paint styles' },
+    { value: 'variables', label: 'Color variables' }
+];
+
+const IMAGE_SIZE_OPTIONS = [1024, 2048, 4096];
+
+const IMAGE_FORMAT_OPTIONS: Array<{ value: ImageFormat, label: string }> = [
+    { value: 'png', label: 'PNG (lossless)' },
+    { value: 'jpeg', label: 'JPEG (smaller, opaque images)' }
+];
+
+const CMYK_OPTIONS: Array<{ value: CmykConversion, label: string }> = [
+    { value: 'rendered', label: 'As rendered (PDF.js)' },
+    { value: 'naive', label: 'Simple formula (brighter)' }
+];
+
+const allPages = (numPages: number) => Array.from({ length: numPages }, (_, i) => i);
+
+export const ImportSettings: React.FC<ImportSettingsProps> = ({ fileName, processor, numPages, restrictions, onCancel, onImport }) => {
+    const [mode, setMode] = useState<ImportMode>(DEFAULT_IMPORT_SETTINGS.mode);
+    const [dpi, setDpi] = useState(DEFAULT_IMPORT_SETTINGS.dpi);
+    const [textStyles, setTextStyles] = useState(DEFAULT_IMPORT_SETTINGS.textStyles);
+    const [outlineMissingFonts, setOutlineMissingFonts] = useState(DEFAULT_IMPORT_SETTINGS.outlineMissingFonts);
+    const [palette, setPalette] = useState<PaletteMode>(DEFAULT_IMPORT_SETTINGS.palette);
+    const [imageFormat, setImageFormat] = useState<ImageFormat>(DEFAULT_IMPORT_SETTINGS.imageFormat);
+    const [maxImageSize, setMaxImageSize] = useState(DEFAULT_IMPORT_SETTINGS.maxImageSize);
+    const [cmykConversion, setCmykConversion] = useState<CmykConversion>(DEFAULT_IMPORT_SETTINGS.cmykConversion);
+    const [selectedPages, setSelectedPages] = useState<number[]>(() => allPages(numPages));
+    const [rangeText, setRangeText] = useState(() => formatPageRange(allPages(numPages)));
+    const [rangeError, setRangeError] = useState(false);
+    const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+
+    // Render thumbnails one page at a time so the panel stays responsive
+    useEffect(() => {
+        let cancelled = false;
+
+        const renderAll = async () => {
+            for (let i = 0; i < numPages && !cancelled; i++) {
+                try {
+                    const url = await processor.renderThumbnail(i);
+                    if (!cancelled) {
+                        setThumbnails(prev => ({ ...prev, [i]: url }));
+                    }
+                } catch (e) {
+                    console.warn(`Thumbnail for page ${i + 1} failed`, e);
+                }
+            }
+        };
+        renderAll();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [processor, numPages]);
+
+    const handleRangeChange = (value: string) => {
+        setRangeText(value);
+        const pages = parsePageRange(value, numPages);
+        setRangeError(pages === null);
+        if (pages) setSelectedPages(pages);
+    };
+
+    const togglePage = (pageIndex: number) => {
+        const pages = selectedPages.includes(pageIndex)
+            ? selectedPages.filter(p => p !== pageIndex)
+            : [...selectedPages, pageIndex].sort((a, b) => a - b);
+        setSelectedPages(pages);
+        setRangeText(formatPageRange(pages));
+        setRangeError(false);
+    };
+
+    const selectAll = (selected: boolean) => {
+        const pages = selected ? allPages(numPages) : [];
+        setSelectedPages(pages);
+        setRangeText(formatPageRange(pages));
+        setRangeError(false);
+    };
+
+    const canImport = selectedPages.length > 0 && !rangeError;
+
     return (
-        <div className="layout-col" style={{ padding: 20 }}>
+        <div className="layout-col" style={{ padding: 20, minHeight: 0, flex: 1 }}>
             <h2>Import Settings</h2>
             <p style={{ marginBottom: 20 }}>File: {fileName}</p>
 
+            {restrictions.length > 0 && (
+                <div className="notice warning" style={{ marginBottom: 20 }}>
+                    <strong>This PDF has owner restrictions:</strong>
+                    <ul>
+                        {restrictions.map(restriction => <li key={restriction}>{restriction}</li>)}
+                    </ul>
+                    <span>Make sure you have the rights to reuse its content before importing.</span>
+                </div>
+            )}
+
             <div style={{ marginBottom: 20 }}>
                 <label style={{ display: 'block', marginBottom: 8, fontWeight: 500 }}>Import mode</label>
-                <div style={{ display: 'flex', gap: 10 }}>
-                    <label>
-                        <input type="radio" name="mode" defaultChecked /> Editable Layers
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                    {MODES.map(option => (
+                        <label key={option.value} title={option.description}>
+                            <input
+                                type="radio"
+                                name="mode"
+                                checked={mode === option.value}
+                                onChange={() => setMode(option.value)}
+                            /> {option.label} <span style={{ opacity: 0.5 }}>— {option.description}</span>
+                        </label>
+                    ))}
+                </div>
+                {mode !== 'editable' && (
+                    <label style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 10 }}>
+                        Resolution
+                        <select className="select-input" value={dpi} onChange={e => setDpi(Number(e.target.value))}>
+                            {DPI_OPTIONS.map(value => (
+                                <option key={value} value={value}>{value} DPI</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+                {mode === 'editable' && (
+                    <div style={{ display: 'flex', gap: 12, marginTop: 10 }}>
+                        <label style={{ display: 'flex', alignItems: 'center', gap: 8 }} title="Larger images are downscaled; repeated images are stored once">
+                            Images up to
+                            <select className="select-input" value={maxImageSize} onChange={e => setMaxImageSize(Number(e.target.value))}>
+                                {IMAGE_SIZE_OPTIONS.map(value => (
+                                    <option key={value} value={value}>{value} px</option>
+                                ))}
+                            </select>
+                        </label>
+                        <label style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                            as
+                            <select className="select-input" value={imageFormat} onChange={e => setImageFormat(e.target.value as ImageFormat)}>
+                                {IMAGE_FORMAT_OPTIONS.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                )}
+                {mode === 'editable' && (
+                    <label style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 10 }} title="Applies to vector shapes; text and images keep the rendered colors">
+                        CMYK colors
+                        <select className="select-input" value={cmykConversion} onChange={e => setCmykConversion(e.target.value as CmykConversion)}>
+                            {CMYK_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+                {mode !== 'image' && (
+                    <label style={{ display: 'block', marginTop: 10 }} title="Cluster paragraphs into headings, body and captions">
+                        <input
+                            type="checkbox"
+                            checked={textStyles}
+                            onChange={e => setTextStyles(e.target.checked)}
+                        /> Create text styles
                     </label>
-                    <label style={{ opacity: 0.5 }}>
-                        <input type="radio" name="mode" disabled /> Images (Coming soon)
+                )}
+                {mode !== 'image' && (
+                    <label style={{ display: 'block', marginTop: 10 }} title="Keep the original glyphs for fonts Figma does not have, with the text as a hidden editable layer">
+                        <input
+                            type="checkbox"
+                            checked={outlineMissingFonts}
+                            onChange={e => setOutlineMissingFonts(e.target.checked)}
+                        /> Outline unavailable fonts
                     </label>
+                )}
+                {mode !== 'image' && (
+                    <label style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 10 }}>
+                        Color palette
+                        <select className="select-input" value={palette} onChange={e => setPalette(e.target.value as PaletteMode)}>
+                            {PALETTE_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                )}
+            </div>
+
+            <div style={{ marginBottom: 12 }}>
+                <label style={{ display: 'block', marginBottom: 8, fontWeight: 500 }}>
+                    Pages ({selectedPages.length} of {numPages})
+                </label>
+                <input
+                    type="text"
+                    className={`text-input ${rangeError ? 'invalid' : ''}`}
+                    value={rangeText}
+                    placeholder="e.g. 1-3, 7, 10-"
+                    onChange={e => handleRangeChange(e.target.value)}
+                />
+                <div style={{ display: 'flex', gap: 10, marginTop: 8 }}>
+                    <a className="link" onClick={() => selectAll(true)}>Select all</a>
+                    <a className="link" onClick={() => selectAll(false)}>Select none</a>
                 </div>
             </div>
 
-            <div style={{ marginTop: 'auto', display: 'flex', gap: 10, justifyContent: 'flex-end' }}>
+            <div className="page-grid">
+                {allPages(numPages).map(pageIndex => (
+                    <label
+                        key={pageIndex}
+                        className={`page-thumb ${selectedPages.includes(pageIndex) ? 'selected' : ''}`}
+                    >
+                        {thumbnails[pageIndex]
+                            ? <img src={thumbnails[pageIndex]} alt={`Page ${pageIndex + 1}`} />
+                            : <div className="page-thumb-placeholder" />}
+                        <span>
+                            <input
+                                type="checkbox"
+                                checked={selectedPages.includes(pageIndex)}
+                                onChange={() => togglePage(pageIndex)}
+                            /> {pageIndex + 1}
+                        </span>
+                    </label>
+                ))}
+            </div>
+
+            <div style={{ marginTop: 16, display: 'flex', gap: 10, justifyContent: 'flex-end' }}>
                 <button className="secondary" onClick={onCancel}>Cancel</button>
-                <button className="primary" onClick={() => onImport({ mode: 'editable' })}>Import</button>
+                <button
+                    className="primary"
+                    style={canImport ? undefined : { opacity: 0.5, pointerEvents: 'none' }}
+                    onClick={() => onImport({
+                        mode,
+                        dpi,
+                        pages: selectedPages,
+                        textStyles: textStyles && mode !== 'image',
+                        outlineMissingFonts,
+                        palette: mode !== 'image' ? palette : 'none',
+                        imageFormat,
+                        maxImageSize,
+                        cmykConversion
+                    })}
+                >
+                    Import
+                </button>
             </div>
         </div>
     );
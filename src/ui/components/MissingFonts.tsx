@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import type { FontCheck, FontMappings } from '../../plugin/font-resolver';
+
+interface MissingFontsProps {
+    fonts: FontCheck[];
+    families: string[]; // Available in Figma
+    onContinue: (mappings: FontMappings) => void;
+    onCancel: () => void;
+}
+
+// Pre-import substitution table: fonts without an automatic match, plus earlier replacements to review
+export const MissingFonts: React.FC<MissingFontsProps> = ({ fonts, families, onContinue, onCancel }) => {
+    const rows = fonts.filter(font => !font.match || font.mapped);
+    const [mappings, setMappings] = useState<FontMappings>(() =>
+        rows.reduce<FontMappings>((all, font) => ({ ...all, [font.family]: font.mapped || '' }), {})
+    );
+    const missingCount = rows.filter(font => !font.match && !mappings[font.family]).length;
+
+    return (
+        <div className="layout-col" style={{ padding: 20 }}>
+            <h2>Missing Fonts</h2>
+            <p style={{ marginBottom: 16 }}>
+                {missingCount > 0
+                    ? `${missingCount} font famil${missingCount === 1 ? 'y is' : 'ies are'} not available in Figma. Pick replacements or keep the default.`
+                    : 'Replacements from earlier imports. They are remembered for future imports.'}
+            </p>
+
+            <div style={{ overflowY: 'auto', marginBottom: 16 }}>
+                {rows.map(font => (
+                    <label
+                        key={font.family}
+                        style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8, marginBottom: 8 }}
+                        title={font.fonts.join(', ')}
+                    >
+                        <span style={{ fontWeight: 500 }}>{font.family}</span>
+                        <select
+                            className="select-input"
+                            value={mappings[font.family] || ''}
+                            onChange={e => setMappings(prev => ({ ...prev, [font.family]: e.target.value }))}
+                        >
+                            <option value="">{font.match ? `${font.match} (automatic)` : 'Inter (default)'}</option>
+                            {families.map(family => (
+                                <option key={family} value={family}>{family}</option>
+                            ))}
+                        </select>
+                    </label>
+                ))}
+            </div>
+
+            <div style={{ marginTop: 'auto', display: 'flex', gap: 10, justifyContent: 'flex-end' }}>
+                <button className="secondary" onClick={onCancel}>Back</button>
+                <button className="primary" onClick={() => onContinue(mappings)}>Continue Import</button>
+            </div>
+        </div>
+    );
+};
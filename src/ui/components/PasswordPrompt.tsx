@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+
+interface PasswordPromptProps {
+    fileName: string;
+    incorrect: boolean;
+    onSubmit: (password: string) => void;
+    onCancel: () => void;
+}
+
+export const PasswordPrompt: React.FC<PasswordPromptProps> = ({ fileName, incorrect, onSubmit, onCancel }) => {
+    const [password, setPassword] = useState('');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!password) return;
+        onSubmit(password);
+        setPassword(''); // The prompt stays up after a wrong password; start the next attempt empty
+    };
+
+    return (
+        <form className="layout-col" style={{ padding: 20 }} onSubmit={handleSubmit}>
+            <h2>Password Required</h2>
+            <p style={{ marginBottom: 20 }}>{fileName} is protected. Enter its password to continue.</p>
+
+            <input
+                type="password"
+                className={`text-input ${incorrect ? 'invalid' : ''}`}
+                value={password}
+                placeholder="Password"
+                autoFocus
+                onChange={e => setPassword(e.target.value)}
+            />
+            {incorrect && (
+                <p style={{ marginTop: 8, color: '#F24822' }}>Incorrect password. Please try again.</p>
+            )}
+
+            <div style={{ marginTop: 'auto', display: 'flex', gap: 10, justifyContent: 'flex-end' }}>
+                <button type="button" className="secondary" onClick={onCancel}>Cancel</button>
+                <button type="submit" className="primary" style={password ? undefined : { opacity: 0.5 }}>Unlock</button>
+            </div>
+        </form>
+    );
+};
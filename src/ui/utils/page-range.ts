@@ -0,0 +1,59 @@
+// Page range helpers for the import settings.
+// User-facing ranges are 1-based ("1-3, 7, 10-"), internally we work with 0-based page indices.
+
+/**
+ * Parses a range string like "1-3, 7, 10-" into sorted, unique 0-based page indices.
+ * Open ranges ("10-", "-3") run to the last/first page. Returns null if the input is invalid.
+ */
+export function parsePageRange(input: string, numPages: number): number[] | null {
+    const pages = new Set<number>();
+    const parts = input.split(',').map(part => part.trim()).filter(part => part.length > 0);
+
+    for (const part of parts) {
+        const match = part.match(/^(\d*)\s*(-)?\s*(\d*)$/);
+        if (!match || (!match[1] && !match[3])) return null;
+
+        const isRange = !!match[2];
+        const start = match[1] ? parseInt(match[1], 10) : 1;
+        const end = isRange ? (match[3] ? parseInt(match[3], 10) : numPages) : start;
+
+        // A bare number followed by digits without a dash ("1 2") is not valid
+        if (!isRange && match[3]) return null;
+        if (start < 1 || end > numPages || start > end) return null;
+
+        for (let page = start; page <= end; page++) {
+            pages.add(page - 1);
+        }
+    }
+
+    return Array.from(pages).sort((a, b) => a - b);
+}
+
+/**
+ * Formats 0-based page indices back into a compact 1-based range string ("1-3, 7, 10-12").
+ */
+export function formatPageRange(pages: number[]): string {
+    const sorted = Array.from(new Set(pages)).sort((a, b) => a - b);
+    const parts: string[] = [];
+
+    let runStart = -1;
+    let runEnd = -1;
+    for (const page of sorted) {
+        if (runStart >= 0 && page === runEnd + 1) {
+            runEnd = page;
+            continue;
+        }
+        if (runStart >= 0) parts.push(formatRun(runStart, runEnd));
+        runStart = page;
+        runEnd = page;
+    }
+    if (runStart >= 0) parts.push(formatRun(runStart, runEnd));
+
+    return parts.join(', ');
+}
+
+// Helpers
+
+function formatRun(start: number, end: number): string {
+    return start === end ? `${start + 1}` : `${start + 1}-${end + 1}`;
+}
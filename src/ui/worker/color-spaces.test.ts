@@ -0,0 +1,154 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import { describe, expect, it } from 'vitest';
+import { cmykToRgb, createColorReader, PageColors, paintColor, tracePaints } from './color-spaces';
+import { loadPage, onePagePdf, streamObject } from './fixtures/pdf-pages';
+
+const PAGE = 3; // Object number of the fixture page
+
+interface Fixture {
+    entries: string;
+    objects: string[];
+}
+
+// Page painting `content` with `resources` (extra objects from 5 on, after the content stream)
+const page = (content: string, resources: string, objects: string[] = []): Fixture => ({
+    entries: `/MediaBox [0 0 100 100] /Contents 4 0 R /Resources ${resources}`,
+    objects: [streamObject(content), ...objects]
+});
+
+const readColors = async ({ entries, objects }: Fixture) =>
+    (await createColorReader(onePagePdf(entries, objects)))(PAGE);
+
+// RGB color operators PDF.js emits for the same page
+const countRgbOps = async ({ entries, objects }: Fixture) => {
+    const ops = await (await loadPage(entries, objects)).getOperatorList();
+    const { OPS } = pdfjsLib;
+    return {
+        fill: ops.fnArray.filter(fn => fn === OPS.setFillRGBColor).length,
+        stroke: ops.fnArray.filter(fn => fn === OPS.setStrokeRGBColor).length
+    };
+};
+
+const GRAY = [128, 128, 128]; // 0.5 g
+const SPOT = '[/Separation /PANTONE#20185#20C /DeviceGray << /FunctionType 2 /Domain [0 1] /C0 [1] /C1 [0] /N 1 >>]';
+
+describe('createColorReader', () => {
+    it('names a spot color only where the Separation is in effect', async () => {
+        // A DeviceGray alternate gives the spot the same RGB as process grays
+        const fixture = page('0.5 g 0 0 10 10 re f /Spot cs 0.5 sc 0 0 10 10 re f 0.5 g 0 0 10 10 re f', `<< /ColorSpace << /Spot ${SPOT} >> >>`);
+        const colors = await readColors(fixture);
+        expect(colors!.fill).toEqual([{ rgb: GRAY }, { spot: { name: 'PANTONE 185 C', tint: 0.5 } }, { rgb: GRAY }]);
+        expect(await countRgbOps(fixture)).toEqual({ fill: 3, stroke: 0 });
+    });
+
+    it('keeps CMYK components, also behind ICCBased spaces', async () => {
+        const fixture = page('0.1 0.2 0.3 0.4 k 0 0 10 10 re f /Icc CS 1 0 0 0 SC 0 0 10 10 re S',
+            '<< /ColorSpace << /Icc [/ICCBased 5 0 R] >> >>', [streamObject('', '/N 4')]);
+        const colors = await readColors(fixture);
+        expect(colors).toEqual({ fill: [{ cmyk: [0.1, 0.2, 0.3, 0.4] }], stroke: [{ cmyk: [1, 0, 0, 0] }] });
+        expect(await countRgbOps(fixture)).toEqual({ fill: 1, stroke: 1 });
+    });
+
+    it('looks Indexed colors up in their base space', async () => {
+        const fixture = page('/Idx cs 1 sc 0 0 10 10 re f /Cmyk cs 0 sc 0 0 10 10 re f',
+            `<< /ColorSpace << /Idx [/Indexed ${SPOT} 2 <00 80 FF>] /Cmyk [/Indexed /DeviceCMYK 0 (\\377\\000\\000\\000)] >> >>`);
+        const colors = await readColors(fixture);
+        expect(colors!.fill).toEqual([{ spot: { name: 'PANTONE 185 C', tint: 0.5 } }, { cmyk: [1, 0, 0, 0] }]);
+    });
+
+    it('follows form XObjects and restores the color space after them', async () => {
+        const form = streamObject('/Spot cs 1 sc 0 0 5 5 re f', `/Type /XObject /Subtype /Form /BBox [0 0 10 10] /Resources << /ColorSpace << /Spot ${SPOT} >> >>`);
+        const fixture = page('/DeviceCMYK cs q /Fm Do Q 0 0 0 1 sc 0 0 10 10 re f', '<< /XObject << /Fm 5 0 R >> >>', [form]);
+        const colors = await readColors(fixture);
+        expect(colors!.fill).toEqual([{ spot: { name: 'PANTONE 185 C', tint: 1 } }, { cmyk: [0, 0, 0, 1] }]);
+        expect(await countRgbOps(fixture)).toEqual({ fill: 2, stroke: 0 });
+    });
+
+    it('follows soft mask groups, which PDF.js inlines where the graphics state is set', async () => {
+        const group = streamObject('0.5 g 0 0 10 10 re f', '/Type /XObject /Subtype /Form /BBox [0 0 10 10] /Group << /S /Transparency /CS /DeviceGray >>');
+        const fixture = page('/GS1 gs 0 0 0 1 k 0 0 10 10 re f', '<< /ExtGState << /GS1 << /SMask << /S /Luminosity /G 5 0 R >> >> >> >>', [group]);
+        const colors = await readColors(fixture);
+        expect(colors!.fill).toEqual([{ rgb: GRAY }, { cmyk: [0, 0, 0, 1] }]);
+        expect(await countRgbOps(fixture)).toEqual({ fill: 2, stroke: 0 });
+    });
+
+    it('skips pattern colors, which PDF.js does not turn into RGB operators', async () => {
+        const pattern = streamObject('0 0 1 rg 0 0 2 2 re f', '/PatternType 1 /PaintType 1 /TilingType 1 /BBox [0 0 4 4] /XStep 4 /YStep 4 /Resources << >>');
+        const fixture = page('/Pattern cs /P1 scn 0 0 10 10 re f 1 0 0 rg 0 0 10 10 re f', '<< /Pattern << /P1 5 0 R >> >>', [pattern]);
+        const colors = await readColors(fixture);
+        expect(colors!.fill).toEqual([{ rgb: [255, 0, 0] }]);
+        expect(await countRgbOps(fixture)).toEqual({ fill: 1, stroke: 0 });
+    });
+
+    it('ignores strings and inline image data that look like operators', async () => {
+        const fixture = page('BT /F1 12 Tf (1 g) Tj ET BI /W 1 /H 1 /BPC 8 /CS /G ID k! EI 0.2 G 0 0 10 10 re S', '<< >>');
+        const colors = await readColors(fixture);
+        expect(colors).toEqual({ fill: [], stroke: [{ rgb: [51, 51, 51] }] });
+    });
+
+    it('drops device color operators with too few operands, as PDF.js does', async () => {
+        const fixture = page('1 0 rg 0 0 10 10 re f 0 0 1 0 k 0 0 10 10 re f', '<< >>');
+        const colors = await readColors(fixture);
+        expect(colors!.fill).toEqual([{ cmyk: [0, 0, 1, 0] }]);
+        expect(await countRgbOps(fixture)).toEqual({ fill: 1, stroke: 0 });
+    });
+
+    it('decodes ASCIIHex content streams', async () => {
+        const hex = [...'0 0 0 1 k 0 0 10 10 re f'].map(ch => ch.charCodeAt(0).toString(16)).join('');
+        const colors = await readColors({
+            entries: '/MediaBox [0 0 100 100] /Contents 4 0 R /Resources << >>',
+            objects: [streamObject(`${hex}>`, '/Filter /ASCIIHexDecode')]
+        });
+        expect(colors!.fill).toEqual([{ cmyk: [0, 0, 0, 1] }]);
+    });
+});
+
+// Color sources of a page as traced onto its operator list, by fill operator
+async function tracedFills(fixture: Fixture, colors?: PageColors) {
+    const ops = await (await loadPage(fixture.entries, fixture.objects)).getOperatorList();
+    const paints = tracePaints(ops, colors ?? await readColors(fixture));
+    return ops.fnArray.flatMap((fn, i) => fn === pdfjsLib.OPS.setFillRGBColor ? [paints.get(i) ?? null] : []);
+}
+
+describe('tracePaints', () => {
+
+    it('pairs every color operator when the walk saw the same ones', async () => {
+        const fixture = page('/Spot cs 1 sc 0 0 10 10 re f 0 0 0 1 k 0 0 10 10 re f', `<< /ColorSpace << /Spot ${SPOT} >> >>`);
+        expect(await tracedFills(fixture)).toEqual([{ spot: { name: 'PANTONE 185 C', tint: 1 } }, { cmyk: [0, 0, 0, 1] }]);
+    });
+
+    it('keeps the colors around a form the walk cannot read, up to colors whose bytes match', async () => {
+        // RunLength is decoded by PDF.js but not by the walk: its red never reaches the traced list
+        const formContent = '1 0 0 rg 0 0 5 5 re f';
+        const form = streamObject(String.fromCharCode(formContent.length - 1) + formContent,
+            '/Type /XObject /Subtype /Form /BBox [0 0 10 10] /Filter /RunLengthDecode');
+        const fixture = page('/Spot cs 1 sc 0 0 10 10 re f 0.5 g 0 0 10 10 re f /Fm Do 0 0 1 rg 0 0 10 10 re f /Spot cs 0.3 sc 0 0 10 10 re f',
+            `<< /ColorSpace << /Spot ${SPOT} >> /XObject << /Fm 5 0 R >> >>`, [form]);
+        expect(await countRgbOps(fixture)).toEqual({ fill: 5, stroke: 0 });
+        expect(await tracedFills(fixture)).toEqual([
+            { spot: { name: 'PANTONE 185 C', tint: 1 } },
+            { rgb: GRAY },
+            null,
+            { rgb: [0, 0, 255] },
+            { spot: { name: 'PANTONE 185 C', tint: 0.3 } }
+        ]);
+    });
+
+    it('does not trust a pairing whose counts match but whose bytes do not', async () => {
+        const fixture = page('1 0 0 rg 0 0 10 10 re f /Spot cs 1 sc 0 0 10 10 re f 0 0 1 rg 0 0 10 10 re f 0 1 0 rg 0 0 10 10 re f',
+            `<< /ColorSpace << /Spot ${SPOT} >> >>`);
+        const spot = { spot: { name: 'PANTONE 185 C', tint: 1 } };
+        const shuffled = { fill: [{ rgb: [255, 0, 0] }, { rgb: [0, 0, 255] }, spot, { rgb: [0, 255, 0] }], stroke: [] };
+        expect(await tracedFills(fixture, shuffled)).toEqual([{ rgb: [255, 0, 0] }, null, null, { rgb: [0, 255, 0] }]);
+    });
+});
+
+describe('paintColor', () => {
+    it('keeps the RGB PDF.js converted unless the naive CMYK formula is asked for', () => {
+        const source = { cmyk: [0, 1, 1, 0.5] };
+        expect(paintColor([200, 30, 40], source, 'rendered')).toEqual({ r: 200 / 255, g: 30 / 255, b: 40 / 255 });
+        expect(paintColor([200, 30, 40], source, 'naive')).toEqual(cmykToRgb([0, 1, 1, 0.5]));
+        expect(cmykToRgb([0, 1, 1, 0.5])).toEqual({ r: 0.5, g: 0, b: 0 });
+        expect(paintColor([0, 0, 0], {}, 'naive')).toEqual({ r: 0, g: 0, b: 0 });
+    });
+});
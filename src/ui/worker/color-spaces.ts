@@ -0,0 +1,599 @@
+import * as pdfjsLib from 'pdfjs-dist';
+
+// Where the colors of a page came from, for the color spaces PDF.js flattens.
+// PDF.js converts every non-pattern color to RGB bytes in its worker (DeviceGray, DeviceCMYK and ICCBased
+// through their device conversion, Indexed through its lookup table, Separation through the tint
+// transform) and consumes the color space operators, so neither a spot color's name nor the original
+// CMYK components reach the operator list, and PDF.js has no API for the raw objects. createColorReader
+// walks a page's raw content streams instead, tracking the color space each color operator paints in,
+// and tracePaints pairs the result with PDF.js's setFillRGBColor/setStrokeRGBColor operators.
+
+export interface RGB {
+    r: number; // 0..1
+    g: number;
+    b: number;
+}
+
+// Spot color a paint was set in; tint 1 is the full ink
+export interface SpotTint {
+    name: string; // e.g. "PANTONE 185 C"
+    tint: number;
+}
+
+// DeviceCMYK -> RGB.
+// 'rendered' keeps the bytes PDF.js converted the color to, with the fixed polynomial it uses for all
+// CMYK: what the page rendering and the extracted images show. 'naive' is the textbook (1 - c)(1 - k)
+// formula, brighter and more saturated. No ICC profile is applied either way; like PDF.js, ICCBased
+// spaces go through the device space with their number of components.
+export type CmykConversion = 'rendered' | 'naive';
+
+export const cmykToRgb = ([c, m, y, k]: number[]): RGB => {
+    const clamp = (v: number) => Math.min(Math.max(v || 0, 0), 1);
+    return { r: (1 - clamp(c)) * (1 - clamp(k)), g: (1 - clamp(m)) * (1 - clamp(k)), b: (1 - clamp(y)) * (1 - clamp(k)) };
+};
+
+// Where one color operator's color came from: what PDF.js loses, plus the bytes it must have made of
+// device gray and RGB colors, which tracePaints checks the pairing against
+export interface PaintSource {
+    spot?: SpotTint; // Separation (or single-colorant DeviceN) color, also behind an Indexed space
+    cmyk?: number[]; // CMYK components, 0..1
+    rgb?: number[]; // 0..255
+}
+
+// Color operators of a page's content, fill and stroke apart, in content order
+export interface PageColors {
+    fill: PaintSource[];
+    stroke: PaintSource[];
+}
+
+// RGB of a setFillRGBColor/setStrokeRGBColor operator: PDF.js's bytes, or the naive conversion of the
+// CMYK components it came from
+export function paintColor(bytes: number[], source: PaintSource | undefined, conversion: CmykConversion): RGB {
+    if (conversion === 'naive' && source?.cmyk) return cmykToRgb(source.cmyk);
+    return { r: bytes[0] / 255, g: bytes[1] / 255, b: bytes[2] / 255 };
+}
+
+// --- Raw file access ---------------------------------------------------------------------------
+
+type PdfValue = number | boolean | null | string | PdfName | PdfRef | PdfValue[] | PdfDict;
+interface PdfName { name: string }
+interface PdfRef { ref: number }
+interface PdfDict { dict: Record<string, PdfValue> }
+
+const isName = (v: PdfValue): v is PdfName => !!v && typeof v === 'object' && 'name' in v;
+const isRef = (v: PdfValue): v is PdfRef => !!v && typeof v === 'object' && 'ref' in v;
+const isDict = (v: PdfValue): v is PdfDict => !!v && typeof v === 'object' && 'dict' in v;
+
+const MAX_SCAN_BYTES = 64 * 1024 * 1024; // Larger files are imported without color sources
+const DELIMITERS = /[\s()<>[\]{}/%]/;
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+// Literal string starting at `pos` (on its opening parenthesis), one char per byte
+function parseLiteralString(src: string, pos: number) {
+    let text = '';
+    let depth = 0;
+    for (let i = pos; i < src.length; i++) {
+        const ch = src[i];
+        if (ch === '\\') {
+            const next = src[++i];
+            const octal = /^[0-7]{1,3}/.exec(src.slice(i, i + 3));
+            if (octal) {
+                text += String.fromCharCode(parseInt(octal[0], 8) & 0xff);
+                i += octal[0].length - 1;
+            } else if (next === '\r') {
+                if (src[i + 1] === '\n') i++; // Line continuation
+            } else if (next !== '\n') {
+                text += ESCAPES[next] ?? next;
+            }
+        } else if (ch === '(') {
+            if (depth++ > 0) text += ch;
+        } else if (ch === ')') {
+            if (--depth === 0) return { value: text, end: i + 1 };
+            text += ch;
+        } else {
+            text += ch;
+        }
+    }
+    return { value: text, end: src.length };
+}
+
+// Reads one PDF object at `pos`. Strings come back with one char per byte.
+function parseValue(src: string, pos: number): { value: PdfValue, end: number } {
+    while (pos < src.length && /\s/.test(src[pos])) pos++;
+    const ch = src[pos];
+
+    if (ch === '/') {
+        let end = pos + 1;
+        while (end < src.length && !DELIMITERS.test(src[end])) end++;
+        const name = src.slice(pos + 1, end).replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+        return { value: { name }, end };
+    }
+    if (ch === '[') {
+        const items: PdfValue[] = [];
+        pos++;
+        while (pos < src.length) {
+            while (/\s/.test(src[pos])) pos++;
+            if (src[pos] === ']') return { value: items, end: pos + 1 };
+            const item = parseValue(src, pos);
+            items.push(item.value);
+            pos = item.end;
+        }
+        return { value: items, end: pos };
+    }
+    if (ch === '<' && src[pos + 1] === '<') {
+        const dict: Record<string, PdfValue> = {};
+        pos += 2;
+        while (pos < src.length) {
+            while (/\s/.test(src[pos])) pos++;
+            if (src.startsWith('>>', pos)) return { value: { dict }, end: pos + 2 };
+            const key = parseValue(src, pos);
+            const value = parseValue(src, key.end);
+            if (isName(key.value)) dict[key.value.name] = value.value;
+            pos = value.end;
+        }
+        return { value: { dict }, end: pos };
+    }
+    if (ch === '<') {
+        const end = src.indexOf('>', pos) + 1 || src.length;
+        const hex = src.slice(pos + 1, end - 1).replace(/[^0-9a-fA-F]/g, '');
+        let text = '';
+        for (let i = 0; i < hex.length; i += 2) text += String.fromCharCode(parseInt((hex + '0').substr(i, 2), 16));
+        return { value: text, end };
+    }
+    if (ch === '(') return parseLiteralString(src, pos);
+
+    const ref = /^(\d+)\s+\d+\s+R\b/.exec(src.slice(pos, pos + 24));
+    if (ref) return { value: { ref: Number(ref[1]) }, end: pos + ref[0].length };
+    const token = /^[^\s()<>[\]{}/%]+/.exec(src.slice(pos, pos + 64));
+    if (!token) return { value: null, end: pos + 1 };
+    const word = token[0];
+    const value = word === 'true' ? true : word === 'false' ? false : word === 'null' ? null : Number(word);
+    return { value: typeof value === 'number' && isNaN(value) ? null : value, end: pos + word.length };
+}
+
+const latin1 = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+// A copy: Blob parts need a buffer of their own
+const inflate = async (bytes: Uint8Array) => {
+    const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const asciiHex = (bytes: Uint8Array) => {
+    const text = latin1(bytes);
+    const end = text.indexOf('>');
+    const hex = (end < 0 ? text : text.slice(0, end)).replace(/[^0-9a-fA-F]/g, '');
+    const out = new Uint8Array(Math.ceil(hex.length / 2));
+    for (let i = 0; i < out.length; i++) out[i] = parseInt((hex + '0').substr(i * 2, 2), 16);
+    return out;
+};
+
+// Groups of five base-85 digits make four bytes; "z" stands for four zero bytes
+const ascii85 = (bytes: Uint8Array) => {
+    const text = latin1(bytes).replace(/\s/g, '');
+    const end = text.indexOf('~>');
+    const digits = (end < 0 ? text : text.slice(0, end)).replace(/^<~/, '');
+    const out: number[] = [];
+    let group: number[] = [];
+    const flush = (count: number) => {
+        const value = group.reduce((v, digit) => v * 85 + digit, 0);
+        out.push(...[value >>> 24, (value >>> 16) & 255, (value >>> 8) & 255, value & 255].slice(0, count));
+        group = [];
+    };
+    for (const ch of digits) {
+        if (ch === 'z' && group.length === 0) {
+            out.push(0, 0, 0, 0);
+            continue;
+        }
+        group.push(ch.charCodeAt(0) - 33);
+        if (group.length === 5) flush(4);
+    }
+    // A final partial group is padded with the highest digit and keeps one byte less than its digits
+    const partial = group.length;
+    if (partial > 1) {
+        while (group.length < 5) group.push(84);
+        flush(partial - 1);
+    }
+    return new Uint8Array(out);
+};
+
+// Stream filters undone here. Others (LZW, RunLength, predictors, image codecs) leave a stream unread.
+const FILTERS: Record<string, (bytes: Uint8Array) => Uint8Array | Promise<Uint8Array>> = {
+    FlateDecode: inflate, Fl: inflate,
+    ASCIIHexDecode: asciiHex, AHx: asciiHex,
+    ASCII85Decode: ascii85, A85: ascii85
+};
+
+// Indirect objects of an unencrypted file: top-level ones plus those packed into object streams.
+// Top-level definitions win over packed ones, and the last one of a number wins, which follows
+// incremental updates closely enough for color spaces. Top-level objects are decoded from the file
+// bytes when read: the file is only held as text while it is indexed.
+class RawObjects {
+    private spans = new Map<number, { start: number, end: number }>(); // Byte ranges after "n g obj"
+    private packed = new Map<number, { text: string, offset: number }>();
+    readonly encrypted: boolean;
+
+    constructor(private data: Uint8Array) {
+        const text = latin1(data);
+        this.encrypted = /\/Encrypt\b/.test(text);
+        const header = /(\d+)\s+\d+\s+obj\b/g;
+        let previous: { num: number, start: number } | null = null;
+        let match: RegExpExecArray | null;
+        while ((match = header.exec(text))) {
+            if (previous) this.spans.set(previous.num, { start: previous.start, end: match.index });
+            previous = { num: Number(match[1]), start: match.index + match[0].length };
+        }
+        if (previous) this.spans.set(previous.num, { start: previous.start, end: text.length });
+    }
+
+    async unpackObjectStreams() {
+        for (const num of [...this.spans.keys()]) {
+            const dict = this.get(num);
+            if (!isDict(dict) || !isName(dict.dict.Type) || dict.dict.Type.name !== 'ObjStm') continue;
+            try {
+                const content = await this.stream(num);
+                if (!content) continue;
+                const text = latin1(content);
+                const first = Number(dict.dict.First);
+                const pairs = text.slice(0, first).trim().split(/\s+/).map(Number);
+                for (let i = 0; i + 1 < pairs.length; i += 2) {
+                    if (!this.spans.has(pairs[i])) this.packed.set(pairs[i], { text, offset: first + pairs[i + 1] });
+                }
+            } catch (e) {
+                console.warn("Failed to unpack object stream", num, e);
+            }
+        }
+    }
+
+    // Value of a top-level object and where it ends in its span. Most objects are small and stream
+    // objects are only needed up to their dictionary, so the first kilobytes are tried first.
+    private parseTopLevel(span: { start: number, end: number }) {
+        const head = latin1(this.data.subarray(span.start, Math.min(span.end, span.start + 4096)));
+        const parsed = parseValue(head, 0);
+        if (parsed.end < head.length || span.start + head.length >= span.end) return parsed;
+        return parseValue(latin1(this.data.subarray(span.start, span.end)), 0);
+    }
+
+    get(num: number): PdfValue {
+        const span = this.spans.get(num);
+        if (span) return this.parseTopLevel(span).value;
+        const packed = this.packed.get(num);
+        return packed ? parseValue(packed.text, packed.offset).value : null;
+    }
+
+    resolve(value: PdfValue, depth = 0): PdfValue {
+        return isRef(value) && depth < 8 ? this.resolve(this.get(value.ref), depth + 1) : value;
+    }
+
+    // Decoded content of a top-level stream object; null for filters not in FILTERS
+    async stream(num: number): Promise<Uint8Array | null> {
+        const span = this.spans.get(num);
+        if (!span) return null;
+        const { value: dict, end } = this.parseTopLevel(span);
+        if (!isDict(dict)) return null;
+        const keyword = /^\s*stream\r?\n/.exec(latin1(this.data.subarray(span.start + end, span.start + end + 16)));
+        if (!keyword) return null;
+        const start = span.start + end + keyword[0].length;
+        const length = this.resolve(dict.dict.Length);
+        let stop: number;
+        if (typeof length === 'number') {
+            stop = Math.min(start + length, span.end);
+        } else {
+            const rest = latin1(this.data.subarray(start, span.end));
+            stop = start + (rest.lastIndexOf('endstream') + 1 || rest.length + 1) - 1;
+            while (stop > start && (this.data[stop - 1] === 10 || this.data[stop - 1] === 13)) stop--;
+        }
+        let bytes = this.data.subarray(start, stop);
+
+        const filter = this.resolve(dict.dict.Filter);
+        const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map(f => isName(f) ? f.name : '');
+        const params = this.resolve(dict.dict.DecodeParms);
+        const predictor = (Array.isArray(params) ? params : [params]).some(p => {
+            const entries = this.resolve(p);
+            return isDict(entries) && Number(this.resolve(entries.dict.Predictor ?? null)) > 1;
+        });
+        if (predictor || filters.some(name => !FILTERS[name])) return null;
+        for (const name of filters) bytes = await FILTERS[name](bytes);
+        return bytes;
+    }
+}
+
+// --- Content streams ---------------------------------------------------------------------------
+
+interface Operation {
+    op: string;
+    operands: PdfValue[];
+}
+
+// Operators and their operands, in order. Inline image data is skipped.
+function parseOperations(content: string) {
+    const operations: Operation[] = [];
+    let operands: PdfValue[] = [];
+    let pos = 0;
+    while (pos < content.length) {
+        const ch = content[pos];
+        if (/\s/.test(ch)) {
+            pos++;
+        } else if (ch === '%') {
+            const eol = content.slice(pos).search(/[\r\n]/);
+            pos = eol < 0 ? content.length : pos + eol;
+        } else if (/[/[<(+\-.\d]/.test(ch)) {
+            const { value, end } = parseValue(content, pos);
+            operands.push(value);
+            pos = Math.max(end, pos + 1);
+        } else {
+            const word = /^[^\s()<>[\]{}/%]+/.exec(content.slice(pos, pos + 64));
+            if (!word) { pos++; continue; }
+            pos += word[0].length;
+            if (word[0] === 'true' || word[0] === 'false' || word[0] === 'null') {
+                operands.push(word[0] === 'true' ? true : word[0] === 'false' ? false : null);
+                continue;
+            }
+            operations.push({ op: word[0], operands });
+            operands = [];
+            if (word[0] === 'BI') {
+                const data = content.indexOf('ID', pos);
+                const end = data < 0 ? -1 : content.slice(data + 3).search(/\sEI(\s|$)/);
+                pos = end < 0 ? content.length : data + 3 + end + 3;
+            }
+        }
+    }
+    return operations;
+}
+
+interface Space {
+    kind: 'gray' | 'rgb' | 'cmyk' | 'spot' | 'indexed' | 'pattern' | 'other';
+    components: number;
+    name?: string; // Spot colors
+    base?: Space; // Indexed
+    lookup?: string; // Indexed: base space components, one byte each
+}
+
+const DEVICE_SPACES: Record<string, Space> = {
+    DeviceGray: { kind: 'gray', components: 1 },
+    DeviceRGB: { kind: 'rgb', components: 3 },
+    DeviceCMYK: { kind: 'cmyk', components: 4 },
+    Pattern: { kind: 'pattern', components: 0 }
+};
+DEVICE_SPACES.G = DEVICE_SPACES.DeviceGray;
+DEVICE_SPACES.RGB = DEVICE_SPACES.DeviceRGB;
+DEVICE_SPACES.CMYK = DEVICE_SPACES.DeviceCMYK;
+
+const UNKNOWN_SPACE: Space = { kind: 'other', components: 0 };
+
+const MAX_FORM_DEPTH = 12; // Nested form XObjects (and soft masks) followed per page
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+const toByte = (v: number) => Math.min(Math.max(Math.round(v * 255), 0), 255);
+
+// Where the components of a color in `space` came from
+function sourceOf(space: Space, components: number[]): PaintSource {
+    if (space.kind === 'cmyk') return { cmyk: components.slice(0, 4) };
+    if (space.kind === 'spot') return { spot: { name: space.name!, tint: round2(Math.min(Math.max(components[0] || 0, 0), 1)) } };
+    if (space.kind === 'indexed') {
+        const base = space.base!;
+        const index = Math.max(0, Math.round(components[0] || 0));
+        const bytes = space.lookup!.slice(index * base.components, (index + 1) * base.components);
+        // Lookup bytes span each component's range, which for the spaces kept here is 0..1
+        return sourceOf(base, bytes.split('').map(ch => ch.charCodeAt(0) / 255));
+    }
+    return {};
+}
+
+class ContentWalker {
+    readonly colors: PageColors = { fill: [], stroke: [] };
+
+    constructor(private objects: RawObjects) { }
+
+    private dict(value: PdfValue) {
+        const resolved = this.objects.resolve(value);
+        return isDict(resolved) ? resolved.dict : null;
+    }
+
+    // Entry `name` of a resource category (ColorSpace, XObject, ExtGState), unresolved
+    private resource(resources: PdfValue, category: string, name: PdfValue): PdfValue {
+        const entries = this.dict(this.dict(resources)?.[category] ?? null);
+        return isName(name) && entries ? entries[name.name] ?? null : null;
+    }
+
+    private async colorSpace(value: PdfValue, resources: PdfValue, depth = 0): Promise<Space> {
+        let resolved = this.objects.resolve(value);
+        if (isName(resolved) && !DEVICE_SPACES[resolved.name]) {
+            resolved = this.objects.resolve(this.resource(resources, 'ColorSpace', resolved));
+        }
+        if (isName(resolved)) return DEVICE_SPACES[resolved.name] || UNKNOWN_SPACE;
+        if (!Array.isArray(resolved) || !isName(resolved[0]) || depth > 4) return UNKNOWN_SPACE;
+
+        const space = resolved;
+        const family = (space[0] as PdfName).name;
+        const operand = (i: number) => this.objects.resolve(space[i] ?? null);
+        if (family === 'ICCBased') {
+            const n = this.dict(space[1])?.N;
+            return n === 1 ? DEVICE_SPACES.DeviceGray : n === 3 ? DEVICE_SPACES.DeviceRGB : n === 4 ? DEVICE_SPACES.DeviceCMYK : UNKNOWN_SPACE;
+        }
+        if (family === 'Separation' || family === 'DeviceN') {
+            const names = family === 'DeviceN' ? operand(1) : [operand(1)];
+            const name = Array.isArray(names) && names.length === 1 && isName(names[0]) ? names[0].name : null;
+            // "All" is registration, "None" never marks
+            return name && name !== 'All' && name !== 'None' ? { kind: 'spot', components: 1, name } : UNKNOWN_SPACE;
+        }
+        if (family === 'Indexed' || family === 'I') {
+            const base = await this.colorSpace(space[1], resources, depth + 1);
+            const table = space[3];
+            const lookup = isRef(table) ? await this.objects.stream(table.ref).then(bytes => bytes && latin1(bytes)) : operand(3);
+            return typeof lookup === 'string' && base.components > 0 ? { kind: 'indexed', components: 1, base, lookup } : UNKNOWN_SPACE;
+        }
+        if (family === 'Pattern') return DEVICE_SPACES.Pattern;
+        return UNKNOWN_SPACE; // CalGray, CalRGB, Lab: nothing PDF.js loses
+    }
+
+    // Walks one content stream the way PDF.js builds its operator list: form XObjects and soft mask
+    // groups are inlined where they are used
+    async walk(content: string, resources: PdfValue, depth = 0) {
+        const { fill, stroke } = this.colors;
+        let state = { fill: DEVICE_SPACES.DeviceGray, stroke: DEVICE_SPACES.DeviceGray };
+        const stack: Array<typeof state> = [];
+        const numbers = (operands: PdfValue[]) => operands.filter((v): v is number => typeof v === 'number');
+        // Like PDF.js, device color operators with too few operands are dropped and extra ones ignored
+        const last = (operands: PdfValue[], count: number) => {
+            const values = numbers(operands.slice(-count));
+            return operands.length >= count && values.length === count ? values : null;
+        };
+
+        for (const { op, operands } of parseOperations(content)) {
+            switch (op) {
+                case 'q': stack.push({ ...state }); break;
+                case 'Q': state = stack.pop() || state; break;
+                case 'cs': state.fill = await this.colorSpace(operands[0], resources); break;
+                case 'CS': state.stroke = await this.colorSpace(operands[0], resources); break;
+                // A color in a pattern space names the pattern: no RGB color operator
+                case 'sc': case 'scn':
+                    if (state.fill.kind !== 'pattern') fill.push(sourceOf(state.fill, numbers(operands)));
+                    break;
+                case 'SC': case 'SCN':
+                    if (state.stroke.kind !== 'pattern') stroke.push(sourceOf(state.stroke, numbers(operands)));
+                    break;
+                case 'g': case 'G': case 'rg': case 'RG': case 'k': case 'K': {
+                    const space = op.toLowerCase() === 'g' ? DEVICE_SPACES.DeviceGray : op.toLowerCase() === 'rg' ? DEVICE_SPACES.DeviceRGB : DEVICE_SPACES.DeviceCMYK;
+                    const components = last(operands, space.components);
+                    if (!components) break;
+                    // Gray and RGB colors keep the bytes PDF.js makes of them, to check the pairing against
+                    const source = space.kind === 'cmyk' ? sourceOf(space, components)
+                        : { rgb: (space.kind === 'gray' ? [0, 0, 0].map(() => components[0]) : components).map(toByte) };
+                    if (op === op.toLowerCase()) {
+                        state.fill = space;
+                        fill.push(source);
+                    } else {
+                        state.stroke = space;
+                        stroke.push(source);
+                    }
+                    break;
+                }
+                case 'Do': {
+                    const xobject = this.resource(resources, 'XObject', operands[0]);
+                    const subtype = this.dict(xobject)?.Subtype;
+                    if (isRef(xobject) && subtype && isName(subtype) && subtype.name === 'Form') {
+                        await this.walkForm(xobject, resources, depth);
+                    }
+                    break;
+                }
+                case 'gs': {
+                    const gstate = this.dict(this.resource(resources, 'ExtGState', operands[0]));
+                    const smask = this.dict(gstate?.SMask ?? null);
+                    if (smask && isRef(smask.G)) await this.walkForm(smask.G, resources, depth);
+                    break;
+                }
+            }
+        }
+    }
+
+    // A form that cannot be read is skipped: tracePaints finds where the lists part
+    private async walkForm(ref: PdfRef, resources: PdfValue, depth: number) {
+        const content = depth < MAX_FORM_DEPTH ? await this.objects.stream(ref.ref) : null;
+        if (!content) {
+            console.warn(`Colors of form XObject ${ref.ref} not traced`);
+            return;
+        }
+        await this.walk(latin1(content), this.dict(ref)?.Resources ?? resources, depth + 1);
+    }
+}
+
+export type PageColorReader = (pageRef: number) => Promise<PageColors | null>;
+
+// Reads the color sources of pages (by object number) out of the raw file. Encrypted files, files over
+// MAX_SCAN_BYTES and pages whose content streams cannot be decoded (see FILTERS) get null. The reader
+// holds on to `data`: drop it once the import is done.
+export async function createColorReader(data: Uint8Array): Promise<PageColorReader> {
+    if (data.length > MAX_SCAN_BYTES) return async () => null;
+    const objects = new RawObjects(data);
+    if (objects.encrypted) return async () => null;
+    await objects.unpackObjectStreams();
+
+    return async (pageRef: number) => {
+        // Resources are inherited down the page tree
+        let node = objects.resolve({ ref: pageRef });
+        const page = isDict(node) ? node.dict : null;
+        let resources: PdfValue = null;
+        for (let depth = 0; isDict(node) && !resources && depth < 32; depth++) {
+            resources = node.dict.Resources ?? null;
+            node = objects.resolve(node.dict.Parent ?? null);
+        }
+        if (!page) return null;
+
+        // One stream or an array of them, read as one
+        const contents = objects.resolve(page.Contents ?? null);
+        const parts: string[] = [];
+        for (const part of Array.isArray(contents) ? contents : contents === null ? [] : [page.Contents]) {
+            const bytes = isRef(part) ? await objects.stream(part.ref) : null;
+            if (!bytes) return null;
+            parts.push(latin1(bytes));
+        }
+
+        const walker = new ContentWalker(objects);
+        try {
+            await walker.walk(parts.join('\n'), resources);
+        } catch (e) {
+            console.warn("Content stream walk failed", e);
+            return null;
+        }
+        return walker.colors;
+    };
+}
+
+// --- Pairing -----------------------------------------------------------------------------------
+
+type OperatorList = { fnArray: number[], argsArray: any[] };
+
+// A source fits an operator unless its device gray/RGB bytes say otherwise
+const fits = (source: PaintSource, args: number[]) => !source.rgb || source.rgb.every((v, i) => Math.abs(v - args[i]) <= 1);
+
+// Longest run of pairs from the start (or, walking backwards, the end) of both lists that is confirmed:
+// everything up to the last pair whose bytes matched, stopping at the first that did not
+function confirmedRun(pairs: Array<[number, PaintSource]>, ops: OperatorList) {
+    let run = 0;
+    for (let n = 0; n < pairs.length; n++) {
+        const [index, source] = pairs[n];
+        if (!fits(source, ops.argsArray[index])) break;
+        if (source.rgb) run = n + 1;
+    }
+    return run;
+}
+
+// Pairs one kind (fill or stroke) of RGB color operator with its sources, by operator index
+function pairColors(ops: OperatorList, indices: number[], sources: PaintSource[], kind: string, paints: Map<number, PaintSource>) {
+    const zip = (from: 'start' | 'end') => {
+        const count = Math.min(indices.length, sources.length);
+        return Array.from({ length: count }, (_, n): [number, PaintSource] => from === 'start'
+            ? [indices[n], sources[n]]
+            : [indices[indices.length - 1 - n], sources[sources.length - 1 - n]]);
+    };
+    const forward = zip('start');
+    if (indices.length === sources.length && forward.every(([index, source]) => fits(source, ops.argsArray[index]))) {
+        for (const [index, source] of forward) paints.set(index, source);
+        return;
+    }
+    // The walk missed or added something (an unreadable form, an operator PDF.js reads differently):
+    // only the stretches before and after that, bounded by colors whose bytes agree, are kept
+    const head = confirmedRun(forward, ops);
+    const tail = Math.min(confirmedRun(zip('end'), ops), Math.min(indices.length, sources.length) - head);
+    console.warn(`${kind} colors do not line up with the content (${indices.length} operators, ${sources.length} traced): kept ${head} + ${tail}`);
+    for (const [index, source] of [...forward.slice(0, head), ...zip('end').slice(0, tail)]) paints.set(index, source);
+}
+
+// Pairs the operator list's RGB color operators with where their colors came from, by operator index.
+// Both lists follow the page content in order (annotations come after it, and are not traced).
+export function tracePaints(ops: OperatorList, colors: PageColors | null) {
+    const paints = new Map<number, PaintSource>();
+    if (!colors) return paints;
+    const { OPS } = pdfjsLib;
+    const fills: number[] = [];
+    const strokes: number[] = [];
+    for (let i = 0; i < ops.fnArray.length && ops.fnArray[i] !== OPS.beginAnnotation; i++) {
+        if (ops.fnArray[i] === OPS.setFillRGBColor) fills.push(i);
+        else if (ops.fnArray[i] === OPS.setStrokeRGBColor) strokes.push(i);
+    }
+    pairColors(ops, fills, colors.fill, 'Fill', paints);
+    pairColors(ops, strokes, colors.stroke, 'Stroke', paints);
+    return paints;
+}
@@ -0,0 +1,32 @@
+import * as pdfjsLib from 'pdfjs-dist';
+
+// Minimal one-page PDF whose page dictionary (object 3) carries `pageEntries` (MediaBox, CropBox, Rotate,
+// Contents...). `extraObjects` are numbered from 4 on.
+export function onePagePdf(pageEntries: string, extraObjects: string[] = []) {
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        `<< /Type /Page /Parent 2 0 R ${pageEntries} >>`,
+        ...extraObjects
+    ];
+    let pdf = '%PDF-1.7\n';
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+        offsets.push(pdf.length);
+        pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    });
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return new TextEncoder().encode(pdf);
+}
+
+// Unfiltered stream object
+export const streamObject = (content: string, entries = '') =>
+    `<< /Length ${content.length} ${entries} >>\nstream\n${content}\nendstream`;
+
+export async function loadPage(pageEntries: string, extraObjects: string[] = []) {
+    const pdf = await pdfjsLib.getDocument({ data: onePagePdf(pageEntries, extraObjects) }).promise;
+    return pdf.getPage(1);
+}
@@ -0,0 +1,29 @@
+import type { TextItem } from '../paragraph-grouper';
+
+// Synthetic text items for the layout and grouping tests. Coordinates are PDF user space (y up),
+// widths approximate a proportional font at half an em per character.
+export function textItem(str: string, x: number, y: number, style: Partial<TextItem> = {}): TextItem {
+    const fontSize = style.fontSize ?? 10;
+    return {
+        type: 'text',
+        str,
+        x,
+        y,
+        width: str.length * fontSize * 0.5,
+        height: fontSize,
+        fontSize,
+        fontFamily: 'Helvetica',
+        fontName: 'g_d0_f1',
+        fontWeight: 400,
+        fontStyle: 'normal',
+        color: '#000000',
+        matrix: [fontSize, 0, 0, fontSize, x, y],
+        transform: [fontSize, 0, 0, fontSize, x, y],
+        ...style
+    };
+}
+
+// One item per line, `leading` apart, starting at baseline `top`
+export function textLines(lines: string[], x: number, top: number, leading = 12, style: Partial<TextItem> = {}) {
+    return lines.map((line, i) => textItem(line, x, top - i * leading, style));
+}
@@ -0,0 +1,141 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { RGB } from './color-spaces';
+import type { ImageFormat } from './pdf-processor';
+
+// Turns the image objects PDF.js hands out into canvases that can be encoded as PNG.
+// The worker has already applied the color space, Decode arrays, /Mask and /SMask: what arrives is
+// either an ImageBitmap or raw pixels of one `kind` (1-bit gray, RGB or RGBA). Soft masks and color-key
+// masks only survive as the alpha channel of RGBA data, so everything is drawn onto a transparent canvas.
+// Stencil masks (ImageMask) carry coverage only and are painted with the fill color current at the
+// paint operator, like PDF.js's canvas does.
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    return ctx ? { canvas, ctx } : null;
+};
+
+// Raw pixels of a PDF.js image object as RGBA
+function toRgba(img: { kind: number, data: Uint8Array | Uint8ClampedArray, width: number, height: number }) {
+    const { ImageKind } = pdfjsLib;
+    const { kind, data: src, width, height } = img;
+    const dest = new Uint8ClampedArray(width * height * 4);
+
+    if (kind === ImageKind.RGBA_32BPP) {
+        dest.set(src.subarray(0, dest.length));
+    } else if (kind === ImageKind.RGB_24BPP) {
+        for (let s = 0, d = 0; d < dest.length && s + 2 < src.length; s += 3, d += 4) {
+            dest[d] = src[s];
+            dest[d + 1] = src[s + 1];
+            dest[d + 2] = src[s + 2];
+            dest[d + 3] = 255;
+        }
+    } else if (kind === ImageKind.GRAYSCALE_1BPP) {
+        // One bit per pixel, rows padded to whole bytes; 1 is white
+        const rowBytes = (width + 7) >> 3;
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const bit = (src[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+                const d = (y * width + x) * 4;
+                dest[d] = dest[d + 1] = dest[d + 2] = bit ? 255 : 0;
+                dest[d + 3] = 255;
+            }
+        }
+    } else {
+        throw new Error(`Unsupported image kind: ${kind}`);
+    }
+    return new ImageData(dest, width, height);
+}
+
+// Canvas holding an image object (ImageBitmap or raw pixels), or null when it has no pixels
+export function decodeImage(img: any): HTMLCanvasElement | null {
+    const { width, height } = img || {};
+    if (!(width > 0 && height > 0) || !(img.bitmap || img.data)) return null;
+    const target = createCanvas(width, height);
+    if (!target) return null;
+
+    if (img.bitmap) target.ctx.drawImage(img.bitmap, 0, 0);
+    else target.ctx.putImageData(toRgba(img), 0, 0);
+    return target.canvas;
+}
+
+// Canvas with a stencil mask painted in `color`. Raw masks are 1 bit per pixel with 0 marking painted
+// pixels (PDF.js has already applied the Decode array); bitmap masks are opaque where painted.
+export function decodeImageMask(mask: any, color: RGB, alpha: number): HTMLCanvasElement | null {
+    const { width, height } = mask || {};
+    if (!(width > 0 && height > 0) || !(mask.bitmap || mask.data)) return null;
+    const target = createCanvas(width, height);
+    if (!target) return null;
+    const { ctx } = target;
+
+    if (mask.bitmap) {
+        ctx.drawImage(mask.bitmap, 0, 0);
+    } else if (mask.kind === pdfjsLib.ImageKind.RGBA_32BPP) {
+        ctx.putImageData(toRgba(mask), 0, 0); // Oversized masks come pre-expanded, opaque where painted
+    } else {
+        const coverage = new Uint8ClampedArray(width * height * 4);
+        const rowBytes = (width + 7) >> 3;
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const byte = mask.data[y * rowBytes + (x >> 3)] ?? 255;
+                if (((byte >> (7 - (x & 7))) & 1) === 0) coverage[(y * width + x) * 4 + 3] = 255;
+            }
+        }
+        ctx.putImageData(new ImageData(coverage, width, height), 0, 0);
+    }
+
+    // Keep the coverage, replace its color
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.globalAlpha = alpha;
+    ctx.fillStyle = `rgb(${Math.round(color.r * 255)}, ${Math.round(color.g * 255)}, ${Math.round(color.b * 255)})`;
+    ctx.fillRect(0, 0, width, height);
+    return target.canvas;
+}
+
+// Sub-rectangle of a canvas (inline image groups are packed into one atlas)
+export function cropCanvas(source: HTMLCanvasElement, x: number, y: number, width: number, height: number) {
+    const target = createCanvas(width, height);
+    if (!target) return null;
+    target.ctx.drawImage(source, x, y, width, height, 0, 0, width, height);
+    return target.canvas;
+}
+
+const JPEG_QUALITY = 0.85;
+
+// Identity of a decoded image for deduplication: its size plus two independent 32-bit hashes
+// (FNV-1a and a multiply-rotate hash) of the RGBA words
+export function fingerprint(pixels: ImageData) {
+    const words = new Uint32Array(pixels.data.buffer, pixels.data.byteOffset, pixels.data.byteLength >> 2);
+    let h1 = 0x811c9dc5;
+    let h2 = 0x9e3779b9;
+    for (let i = 0; i < words.length; i++) {
+        h1 = Math.imul(h1 ^ words[i], 0x01000193);
+        h2 = Math.imul((h2 << 5) | (h2 >>> 27), 0x5bd1e995) ^ words[i];
+    }
+    return `${pixels.width}x${pixels.height}:${(h1 >>> 0).toString(16)}${(h2 >>> 0).toString(16)}`;
+}
+
+// Encodes a canvas, downscaled so its longest side fits `maxSize`. JPEG is only used for fully
+// opaque images: it has no alpha channel, and masked images would get a black background.
+export async function encodeImage(canvas: HTMLCanvasElement, pixels: ImageData, format: ImageFormat, maxSize: number) {
+    let source = canvas;
+    const scale = maxSize > 0 ? Math.min(1, maxSize / Math.max(canvas.width, canvas.height)) : 1;
+    if (scale < 1) {
+        const target = createCanvas(Math.max(1, Math.round(canvas.width * scale)), Math.max(1, Math.round(canvas.height * scale)));
+        if (target) {
+            target.ctx.imageSmoothingQuality = 'high';
+            target.ctx.drawImage(canvas, 0, 0, target.canvas.width, target.canvas.height);
+            source = target.canvas;
+        }
+    }
+
+    let opaque = format === 'jpeg';
+    for (let i = 3; opaque && i < pixels.data.length; i += 4) {
+        if (pixels.data[i] < 255) opaque = false;
+    }
+    const blob = await new Promise<Blob | null>(resolve =>
+        opaque ? source.toBlob(resolve, 'image/jpeg', JPEG_QUALITY) : source.toBlob(resolve, 'image/png'));
+    return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+}
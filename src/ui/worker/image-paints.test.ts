@@ -0,0 +1,36 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import { describe, expect, it } from 'vitest';
+import { loadPage, streamObject } from './fixtures/pdf-pages';
+import { findImagePaints } from './image-paints';
+import { getPageGeometry } from './page-geometry';
+
+// 1x1 gray image
+const IMAGE = streamObject('A', '/Type /XObject /Subtype /Image /Width 1 /Height 1 /ColorSpace /DeviceGray /BitsPerComponent 8');
+
+async function imagesOf(pageEntries: string, extraObjects: string[]) {
+    const page = await loadPage(`/MediaBox [0 0 200 200] ${pageEntries}`, extraObjects);
+    const ops = await page.getOperatorList();
+    return findImagePaints(ops, { geometry: getPageGeometry(page), paints: new Map(), cmykConversion: 'rendered' });
+}
+
+describe('findImagePaints', () => {
+    it('places images drawn inside a form XObject through its /Matrix', async () => {
+        const images = await imagesOf('/Contents 4 0 R /Resources << /XObject << /Fm0 5 0 R >> >>', [
+            streamObject('q 1 0 0 1 20 0 cm /Fm0 Do Q'),
+            streamObject('10 0 0 10 0 0 cm /Im0 Do', '/Type /XObject /Subtype /Form /BBox [0 0 10 10] /Matrix [2 0 0 2 50 60] /Resources << /XObject << /Im0 6 0 R >> >>'),
+            IMAGE
+        ]);
+        expect(images.map(image => image.fn)).toEqual([pdfjsLib.OPS.paintImageXObject]);
+        expect(images[0].transform).toEqual([20, 0, 0, 20, 70, 60]);
+    });
+
+    it('leaves out images that only shape a soft mask', async () => {
+        const images = await imagesOf('/Contents 4 0 R /Resources << /ExtGState << /GS0 5 0 R >> /XObject << /Im0 7 0 R >> >>', [
+            streamObject('/GS0 gs 10 0 0 10 0 0 cm /Im0 Do'),
+            '<< /Type /ExtGState /SMask << /Type /Mask /S /Luminosity /G 6 0 R >> >>',
+            streamObject('200 0 0 200 0 0 cm /Im0 Do', '/Type /XObject /Subtype /Form /BBox [0 0 200 200] /Group << /S /Transparency /CS /DeviceGray >> /Resources << /XObject << /Im0 7 0 R >> >>'),
+            IMAGE
+        ]);
+        expect(images.map(image => image.transform)).toEqual([[10, 0, 0, 10, 0, 0]]);
+    });
+});
@@ -0,0 +1,44 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { RGB } from './color-spaces';
+import { walkOperators, WalkOptions } from './operator-walker';
+import { multiplyTransform } from './page-geometry';
+
+// Image painting operators of an operator list with the state they paint in: image XObjects, inline
+// images, stencil masks and the repeated/grouped forms PDF.js's optimizer folds runs of them into.
+// Decoding them is left to the caller (see image-decoder.ts).
+
+type OperatorList = { fnArray: number[], argsArray: any[] };
+
+export interface ImagePaint {
+    fn: number;
+    args: any[];
+    index: number;
+    transform: number[]; // Unit square -> upright space (the CTM on top of the page geometry)
+    fill: RGB; // Stencil masks paint in the fill color
+    fillAlpha: number;
+    clipId?: string;
+}
+
+const IMAGE_OPS = new Set<number>([
+    pdfjsLib.OPS.paintImageXObject, pdfjsLib.OPS.paintInlineImageXObject, pdfjsLib.OPS.paintImageXObjectRepeat,
+    pdfjsLib.OPS.paintInlineImageXObjectGroup, pdfjsLib.OPS.paintImageMaskXObject,
+    pdfjsLib.OPS.paintImageMaskXObjectRepeat, pdfjsLib.OPS.paintImageMaskXObjectGroup,
+    pdfjsLib.OPS.paintSolidColorImageMask
+]);
+
+export function findImagePaints(ops: OperatorList, options: WalkOptions) {
+    const images: ImagePaint[] = [];
+    walkOperators(ops, options, {}, (fn, args, index, state) => {
+        if (!IMAGE_OPS.has(fn)) return;
+        images.push({
+            fn,
+            args,
+            index,
+            transform: multiplyTransform(state.matrix, options.geometry.toUpright),
+            fill: state.fillColor,
+            fillAlpha: state.fillAlpha,
+            clipId: state.clipId
+        });
+    });
+    return images;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { textItem, textLines } from './fixtures/text-items';
+import type { TextItem } from './paragraph-grouper';
+import { analyzeLayout, segmentPage } from './layout-analyzer';
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+
+// Sorted strings of a block's items: the order within a block is left to the paragraph grouper
+const strings = (items: TextItem[]) => items.map(item => item.str).sort();
+
+const LEFT = textLines([
+    'Left column first line of text',
+    'left column second line of text',
+    'left column third line of text'
+], 50, 700);
+const RIGHT = textLines([
+    'Right column first line of text',
+    'right column second line of text',
+    'right column third line of text'
+], 330, 700);
+
+describe('segmentPage', () => {
+    it('splits two columns at the gutter and reads the left one first', () => {
+        // Interleave the items the way a content stream often orders them
+        const items = [LEFT[0], RIGHT[0], LEFT[1], RIGHT[1], LEFT[2], RIGHT[2]];
+        const blocks = segmentPage(items, PAGE_WIDTH, PAGE_HEIGHT);
+
+        expect(blocks.map(block => block.type)).toEqual(['column', 'column']);
+        expect(strings(blocks[0].items)).toEqual(strings(LEFT));
+        expect(strings(blocks[1].items)).toEqual(strings(RIGHT));
+    });
+
+    it('tags a narrow column next to the body as a sidebar', () => {
+        const body = textLines([
+            'A long body line that fills most of the page width here',
+            'and a second long body line that keeps on going along',
+            'and a third long body line to make the main column wide'
+        ], 50, 700);
+        const sidebar = textLines(['Note', 'aside'], 450, 700);
+        const blocks = segmentPage([...sidebar, ...body], PAGE_WIDTH, PAGE_HEIGHT);
+
+        expect(blocks.map(block => block.type)).toEqual(['column', 'sidebar']);
+        expect(strings(blocks[1].items)).toEqual(strings(sidebar));
+    });
+
+    it('separates running headers and footers from the body columns', () => {
+        const header = textItem('Quarterly Report', 50, 760);
+        const footer = textItem('Page 3', 290, 30);
+        const blocks = segmentPage([footer, ...LEFT, header, ...RIGHT], PAGE_WIDTH, PAGE_HEIGHT);
+
+        expect(blocks.map(block => block.type)).toEqual(['header', 'column', 'column', 'footer']);
+        expect(blocks[0].items).toEqual([header]);
+        expect(blocks[3].items).toEqual([footer]);
+        // The body blocks carry no margin text
+        expect(blocks.slice(1, 3).every(block => !block.items.includes(header) && !block.items.includes(footer))).toBe(true);
+    });
+
+    it('does not treat large text in the top margin as a running header', () => {
+        const title = textItem('Title', 50, 760, { fontSize: 24 });
+        const blocks = segmentPage([title, ...LEFT], PAGE_WIDTH, PAGE_HEIGHT);
+        expect(blocks[0].type).not.toBe('header');
+    });
+});
+
+describe('analyzeLayout', () => {
+    it('produces paragraphs in reading order: header, left column, right column, footer', () => {
+        const header = textItem('Quarterly Report', 50, 760);
+        const footer = textItem('Page 3', 290, 30);
+        const items = [footer, LEFT[0], RIGHT[0], LEFT[1], RIGHT[1], header, LEFT[2], RIGHT[2]];
+        const paragraphs = analyzeLayout(items, PAGE_WIDTH, PAGE_HEIGHT);
+
+        expect(paragraphs.map(para => [para.blockType, para.text])).toEqual([
+            ['header', 'Quarterly Report'],
+            ['column', LEFT.map(item => item.str).join(' ')],
+            ['column', RIGHT.map(item => item.str).join(' ')],
+            ['footer', 'Page 3']
+        ]);
+    });
+});
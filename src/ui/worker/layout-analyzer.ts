@@ -0,0 +1,176 @@
+import { attachListMarkers, BlockType, groupTextItems, isUpright, Paragraph, TextItem } from './paragraph-grouper';
+
+// Page segmentation before paragraph grouping.
+// A recursive XY-cut splits the page at whitespace: vertical gutters first (columns, sidebars),
+// then horizontal gaps (bands). Bands that share a gutter are merged back before recursing, so
+// paragraph breaks that happen to line up across two columns do not interleave their lines.
+// Item coordinates are PDF user space (bottom-up), as produced by PDFProcessor.extractText.
+
+export interface LayoutBlock {
+    type: BlockType;
+    items: TextItem[];
+    x: number;
+    y: number; // Bottom edge (PDF coordinates)
+    width: number;
+    height: number;
+}
+
+interface Box {
+    item: TextItem;
+    x0: number;
+    x1: number;
+    y0: number;
+    y1: number;
+}
+
+const MARGIN_RATIO = 0.08; // Top/bottom share of the page where running headers and footers live
+const SIDEBAR_RATIO = 0.35; // A column narrower than this share of its neighbours is a sidebar
+const GUTTER_EM = 1.0; // Minimum vertical whitespace between columns, in median font sizes
+const BAND_GAP_EM = 0.6; // Minimum horizontal whitespace between bands (larger than line leading)
+
+// Text blocks in reading order: top to bottom, columns left to right
+export function segmentPage(items: TextItem[], pageWidth: number, pageHeight: number): LayoutBlock[] {
+    // Bullets glued to their text first, or the marker column would be cut off as a block
+    const boxes = attachListMarkers(items).filter(item => item.str.trim()).map(toBox);
+    if (boxes.length === 0) return [];
+
+    // Margin bands come off before any column cut: a centred page number sits in the gutter and
+    // would otherwise be read as a column between the two real ones
+    const bodySize = medianFontSize(boxes);
+    const bands = splitAtGaps(boxes, 'y', bodySize * BAND_GAP_EM).reverse();
+    let first = 0;
+    let last = bands.length;
+    while (first < last && boundsOf(bands[first]).y0 >= pageHeight * (1 - MARGIN_RATIO)) first++;
+    while (last > first && boundsOf(bands[last - 1]).y1 <= pageHeight * MARGIN_RATIO) last--;
+
+    const leaves: Array<{ boxes: Box[], type: BlockType }> = [];
+    bands.slice(0, first).forEach(band => cut(band, 'body', leaves));
+    if (first === 0 && last === bands.length) cut(boxes, 'body', leaves);
+    else if (first < last) cut(([] as Box[]).concat(...bands.slice(first, last)), 'body', leaves);
+    bands.slice(last).forEach(band => cut(band, 'body', leaves));
+
+    return leaves.map(leaf => {
+        const bounds = boundsOf(leaf.boxes);
+        let type = leaf.type;
+
+        // Running headers/footers: confined to the page margin and not larger than the body text
+        if (medianFontSize(leaf.boxes) <= bodySize) {
+            if (bounds.y0 >= pageHeight * (1 - MARGIN_RATIO)) type = 'header';
+            else if (bounds.y1 <= pageHeight * MARGIN_RATIO) type = 'footer';
+        }
+
+        return {
+            type,
+            items: leaf.boxes.map(box => box.item),
+            x: bounds.x0,
+            y: bounds.y0,
+            width: Math.min(bounds.x1, pageWidth) - bounds.x0,
+            height: bounds.y1 - bounds.y0
+        };
+    });
+}
+
+// Groups each block separately so lines never merge across columns, tagging paragraphs with the block type.
+// Rotated text (chart labels, spines) takes no part in the cut and is grouped per orientation after the body.
+export function analyzeLayout(items: TextItem[], pageWidth: number, pageHeight: number): Paragraph[] {
+    const paragraphs: Paragraph[] = [];
+    for (const block of segmentPage(items.filter(isUpright), pageWidth, pageHeight)) {
+        for (const para of groupTextItems(block.items)) {
+            para.blockType = block.type;
+            paragraphs.push(para);
+        }
+    }
+    for (const para of groupTextItems(items.filter(item => !isUpright(item)))) {
+        para.blockType = 'body';
+        paragraphs.push(para);
+    }
+    return paragraphs;
+}
+
+function cut(boxes: Box[], type: BlockType, leaves: Array<{ boxes: Box[], type: BlockType }>) {
+    const em = medianFontSize(boxes);
+
+    // 1. Columns: split at every vertical gutter, left to right
+    const columns = splitAtGaps(boxes, 'x', em * GUTTER_EM);
+    if (columns.length > 1) {
+        const widths = columns.map(column => width(column));
+        const widest = Math.max(...widths);
+        columns.forEach((column, i) => {
+            cut(column, widths[i] < widest * SIDEBAR_RATIO ? 'sidebar' : 'column', leaves);
+        });
+        return;
+    }
+
+    // 2. Bands: split at horizontal gaps, top to bottom (PDF y grows upwards)
+    const bands = splitAtGaps(boxes, 'y', em * BAND_GAP_EM).reverse();
+    if (bands.length === 1) {
+        leaves.push({ boxes, type });
+        return;
+    }
+
+    // Merge consecutive multi-column bands whose union still has a gutter (same column layout)
+    const regions: Box[][] = [];
+    for (const band of bands) {
+        const last = regions[regions.length - 1];
+        if (last && hasGap(last, 'x', em * GUTTER_EM) && hasGap([...last, ...band], 'x', em * GUTTER_EM)) {
+            last.push(...band);
+        } else {
+            regions.push([...band]);
+        }
+    }
+    for (const region of regions) {
+        cut(region, type, leaves);
+    }
+}
+
+// Partitions boxes at whitespace gaps of at least `minGap` along one axis, in ascending order
+function splitAtGaps(boxes: Box[], axis: 'x' | 'y', minGap: number): Box[][] {
+    const lo = (box: Box) => axis === 'x' ? box.x0 : box.y0;
+    const hi = (box: Box) => axis === 'x' ? box.x1 : box.y1;
+
+    const sorted = [...boxes].sort((a, b) => lo(a) - lo(b));
+    const groups: Box[][] = [[sorted[0]]];
+    let reach = hi(sorted[0]);
+    for (let i = 1; i < sorted.length; i++) {
+        const box = sorted[i];
+        if (lo(box) - reach >= minGap) {
+            groups.push([box]);
+        } else {
+            groups[groups.length - 1].push(box);
+        }
+        reach = Math.max(reach, hi(box));
+    }
+    return groups;
+}
+
+function hasGap(boxes: Box[], axis: 'x' | 'y', minGap: number) {
+    return splitAtGaps(boxes, axis, minGap).length > 1;
+}
+
+function toBox(item: TextItem): Box {
+    // Baseline-anchored: PDF.js reports the advance width and (roughly) the font size as height
+    const height = item.height > 0 ? item.height : item.fontSize;
+    return { item, x0: item.x, x1: item.x + Math.max(item.width, 0), y0: item.y, y1: item.y + height };
+}
+
+// Loop rather than Math.min(...): pages can carry thousands of glyph-level items
+function boundsOf(boxes: Box[]) {
+    const bounds = { x0: Infinity, x1: -Infinity, y0: Infinity, y1: -Infinity };
+    for (const box of boxes) {
+        bounds.x0 = Math.min(bounds.x0, box.x0);
+        bounds.x1 = Math.max(bounds.x1, box.x1);
+        bounds.y0 = Math.min(bounds.y0, box.y0);
+        bounds.y1 = Math.max(bounds.y1, box.y1);
+    }
+    return bounds;
+}
+
+function width(boxes: Box[]) {
+    const { x0, x1 } = boundsOf(boxes);
+    return x1 - x0;
+}
+
+function medianFontSize(boxes: Box[]) {
+    const sizes = boxes.map(box => box.item.fontSize).sort((a, b) => a - b);
+    return sizes[Math.floor(sizes.length / 2)] || 12;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { loadPage, streamObject } from './fixtures/pdf-pages';
+import { extractNativePaths } from './native-paths';
+import { getPageGeometry } from './page-geometry';
+
+// Native paths of a 200 x 200 page (viewport y runs down from the top)
+async function pathsOf(pageEntries: string, extraObjects: string[]) {
+    const page = await loadPage(`/MediaBox [0 0 200 200] ${pageEntries}`, extraObjects);
+    const ops = await page.getOperatorList();
+    const options = { geometry: getPageGeometry(page), paints: new Map(), cmykConversion: 'rendered' as const };
+    return extractNativePaths(ops, page.objs, options)!;
+}
+
+describe('extractNativePaths', () => {
+    it('places paths of a form XObject through its /Matrix', async () => {
+        const paths = await pathsOf('/Contents 4 0 R /Resources << /XObject << /Fm0 5 0 R >> >>', [
+            streamObject('/Fm0 Do'),
+            streamObject('0 0 10 10 re f', '/Type /XObject /Subtype /Form /BBox [0 0 10 10] /Matrix [2 0 0 2 10 20]')
+        ]);
+        expect(paths.map(path => path.d)).toEqual(['M 10 180 L 30 180 L 30 160 L 10 160 Z']);
+    });
+
+    it('applies the form matrix on top of the CTM and restores it afterwards', async () => {
+        const paths = await pathsOf('/Contents 4 0 R /Resources << /XObject << /Fm0 5 0 R >> >>', [
+            streamObject('q 1 0 0 1 100 0 cm /Fm0 Do Q 0 0 5 5 re f'),
+            streamObject('0 0 10 10 re f', '/Type /XObject /Subtype /Form /BBox [0 0 10 10] /Matrix [2 0 0 2 10 20]')
+        ]);
+        expect(paths.map(path => path.d)).toEqual([
+            'M 110 180 L 130 180 L 130 160 L 110 160 Z',
+            'M 0 200 L 5 200 L 5 195 L 0 195 Z'
+        ]);
+    });
+
+    it('leaves out the content of soft masks', async () => {
+        const paths = await pathsOf('/Contents 4 0 R /Resources << /ExtGState << /GS0 5 0 R >> >>', [
+            streamObject('/GS0 gs 0 0 10 10 re f'),
+            '<< /Type /ExtGState /SMask << /Type /Mask /S /Luminosity /G 6 0 R >> >>',
+            streamObject('1 g 0 0 200 200 re f', '/Type /XObject /Subtype /Form /BBox [0 0 200 200] /Group << /S /Transparency /CS /DeviceGray >>')
+        ]);
+        expect(paths.map(path => path.d)).toEqual(['M 0 200 L 10 200 L 10 190 L 0 190 Z']);
+    });
+
+    it('places annotation appearances in their rect', async () => {
+        const paths = await pathsOf('/Annots [4 0 R]', [
+            '<< /Type /Annot /Subtype /Square /Rect [100 100 150 130] /AP << /N 5 0 R >> >>',
+            streamObject('0 0 50 30 re f', '/Type /XObject /Subtype /Form /BBox [0 0 50 30]')
+        ]);
+        expect(paths.map(path => path.d)).toEqual(['M 100 100 L 150 100 L 150 70 L 100 70 Z']);
+    });
+});
@@ -0,0 +1,169 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import { CurrentPath, GraphicsState, walkOperators, WalkOptions } from './operator-walker';
+import { buildPathData, multiplyTransform } from './page-geometry';
+import type { GradientFill, NativePath } from './pdf-processor';
+
+// Filled and stroked paths of an operator list as Figma-ready vectors in page (viewport) coordinates,
+// with shading patterns and sh operators as gradients.
+
+type OperatorList = { fnArray: number[], argsArray: any[] };
+
+// Where PDF.js keeps the page's shading objects ("obj" messages, resolved before the operator list)
+type PageObjects = { has(objId: string): boolean, get(objId: string): any };
+
+interface PaintState {
+    fillGradient?: GradientFill; // Set by a shading pattern, cleared by any solid color
+    strokeGradient?: GradientFill;
+}
+
+// PDF line cap / join codes (0, 1, 2) to Figma stroke settings
+const LINE_CAPS: Array<'NONE' | 'ROUND' | 'SQUARE'> = ['NONE', 'ROUND', 'SQUARE'];
+const LINE_JOINS: Array<'MITER' | 'ROUND' | 'BEVEL'> = ['MITER', 'ROUND', 'BEVEL'];
+
+// Fill and/or stroke of a path painted in `state` (with its clip), `m` mapping the path's user space to
+// the viewport. Also used for text drawn as outlines (see text-outliner.ts).
+export function pathPaint(state: GraphicsState & PaintState, m: number[], fill: boolean, stroke: boolean): Omit<NativePath, 'd' | 'windingRule'> {
+    const scale = Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2])) || 1;
+    const paint: Omit<NativePath, 'd' | 'windingRule'> = { clipId: state.clipId };
+    if (fill) {
+        paint.fill = { ...state.fillColor, opacity: state.fillAlpha, gradient: state.fillGradient, spot: state.fillSpot };
+    }
+    if (stroke) {
+        paint.stroke = {
+            ...state.strokeColor,
+            opacity: state.strokeAlpha,
+            gradient: state.strokeGradient,
+            spot: state.strokeSpot,
+            // A zero line width means "thinnest line possible" in PDF
+            width: Math.max(state.lineWidth * scale, 0.1),
+            cap: LINE_CAPS[state.lineCap] || 'NONE',
+            join: LINE_JOINS[state.lineJoin] || 'MITER',
+            miterLimit: state.miterLimit,
+            dashPattern: state.dashArray.map(v => v * scale)
+        };
+    }
+    return paint;
+}
+
+// Shading color stops are CSS hex colors; "transparent" marks the area outside a non-extended shading
+function parseStopColor(color: string) {
+    if (!color.startsWith('#')) return { r: 0, g: 0, b: 0, a: 0 };
+    const value = parseInt(color.slice(1), 16);
+    return { r: ((value >> 16) & 255) / 255, g: ((value >> 8) & 255) / 255, b: (value & 255) / 255, a: 1 };
+}
+
+// Converts a PDF.js "RadialAxial" pattern IR to a gradient, with `m` mapping shading space to the viewport.
+// Figma radial gradients have a single circle: the outer one is used and the stops are rescaled
+// so the inner radius keeps its place. Other shading types (meshes, functions) return null.
+function shadingToGradient(ir: any, m: number[]): GradientFill | null {
+    if (!Array.isArray(ir) || ir[0] !== 'RadialAxial') return null;
+    const [, type, , colorStops, p0, p1, r0, r1] = ir as [string, string, unknown, Array<[number, string]>, number[], number[], number, number];
+
+    let shadingTransform: number[];
+    let position = (offset: number) => offset;
+    if (type === 'axial') {
+        const dx = p1[0] - p0[0];
+        const dy = p1[1] - p0[1];
+        if (dx === 0 && dy === 0) return null;
+        // Unit x runs along the axis, unit y along its perpendicular, centred on the axis at v = 0.5
+        shadingTransform = [dx, dy, -dy, dx, p0[0] + dy / 2, p0[1] - dx / 2];
+    } else if (type === 'radial') {
+        if (!(r1 > 0)) return null;
+        shadingTransform = [2 * r1, 0, 0, 2 * r1, p1[0] - r1, p1[1] - r1];
+        position = offset => (r0 + offset * (r1 - r0)) / r1;
+    } else {
+        return null;
+    }
+
+    const stops = colorStops
+        .map(([offset, color]) => ({ position: Math.min(Math.max(position(offset), 0), 1), ...parseStopColor(color) }))
+        .sort((a, b) => a.position - b.position);
+    if (stops.length === 0) return null;
+
+    return {
+        type: type === 'axial' ? 'GRADIENT_LINEAR' : 'GRADIENT_RADIAL',
+        stops,
+        transform: multiplyTransform(shadingTransform, m)
+    };
+}
+
+// Walks the operator list and emits every filled/stroked path with its paint state.
+// Returns null if the walk fails, so the caller can fall back to SVG.
+export function extractNativePaths(
+    ops: OperatorList,
+    objs: PageObjects,
+    options: WalkOptions
+): NativePath[] | null {
+    const nativePaths: NativePath[] = [];
+    const { OPS } = pdfjsLib;
+    const { viewport } = options.geometry;
+
+    // Shading patterns arrive as "obj" messages before the operator list resolves
+    const resolveGradient = (objId: string, m: number[]) => {
+        if (!objs.has(objId)) return undefined;
+        return shadingToGradient(objs.get(objId), m) ?? undefined;
+    };
+
+    const emit = (state: GraphicsState & PaintState, path: CurrentPath, fill: boolean, stroke: boolean, evenOdd: boolean, close: boolean) => {
+        if (!path.d) return;
+
+        nativePaths.push({
+            d: (close ? path.d + "Z" : path.d).trim(),
+            windingRule: evenOdd ? 'EVENODD' : 'NONZERO',
+            ...pathPaint(state, multiplyTransform(path.matrix, viewport.transform), fill, stroke)
+        });
+    };
+
+    try {
+        walkOperators<PaintState>(ops, options, {}, (fn, args, _, state, path) => {
+            // A solid color replaces the shading pattern
+            if (fn === OPS.setFillRGBColor) state.fillGradient = undefined;
+            else if (fn === OPS.setStrokeRGBColor) state.strokeGradient = undefined;
+            // Shading pattern: ["Shading", objId, patternMatrix]. The pattern matrix maps to the
+            // page's default space, not the CTM. Tiling patterns keep the previous solid color.
+            else if ((fn === OPS.setFillColorN || fn === OPS.setStrokeColorN) && args[0] === 'Shading') {
+                const gradient = resolveGradient(args[1], multiplyTransform(args[2] || [1, 0, 0, 1, 0, 0], viewport.transform));
+                if (fn === OPS.setFillColorN) {
+                    state.fillGradient = gradient;
+                    state.fillSpot = undefined;
+                } else {
+                    state.strokeGradient = gradient;
+                    state.strokeSpot = undefined;
+                }
+            }
+            // sh: paints the shading over the current clip, in the current CTM
+            else if (fn === OPS.shadingFill) {
+                const m = multiplyTransform(state.matrix, viewport.transform);
+                const gradient = resolveGradient(args[0], m);
+                if (gradient) {
+                    // Bounded by the shading's BBox when it has one, otherwise by the page
+                    const bbox = objs.get(args[0])[2];
+                    const area = Array.isArray(bbox)
+                        ? buildPathData([OPS.rectangle], [bbox[0], bbox[1], bbox[2] - bbox[0], bbox[3] - bbox[1]], m)
+                        : `M 0 0 L ${viewport.width} 0 L ${viewport.width} ${viewport.height} L 0 ${viewport.height} Z`;
+                    const { r, g, b } = gradient.stops[0];
+                    nativePaths.push({
+                        d: area.trim(),
+                        windingRule: 'NONZERO',
+                        clipId: state.clipId,
+                        fill: { r, g, b, opacity: state.fillAlpha, gradient }
+                    });
+                }
+            }
+            // Painting (Fill/Stroke)
+            else if (fn === OPS.fill) emit(state, path, true, false, false, false);
+            else if (fn === OPS.eoFill) emit(state, path, true, false, true, false);
+            else if (fn === OPS.stroke) emit(state, path, false, true, false, false);
+            else if (fn === OPS.closeStroke) emit(state, path, false, true, false, true);
+            else if (fn === OPS.fillStroke) emit(state, path, true, true, false, false);
+            else if (fn === OPS.eoFillStroke) emit(state, path, true, true, true, false);
+            else if (fn === OPS.closeFillStroke) emit(state, path, true, true, false, true);
+            else if (fn === OPS.closeEOFillStroke) emit(state, path, true, true, true, true);
+        });
+    } catch (e) {
+        console.warn("Native Path Extraction failed", e);
+        return null;
+    }
+
+    return nativePaths;
+}
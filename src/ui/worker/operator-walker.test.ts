@@ -0,0 +1,56 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import { describe, expect, it } from 'vitest';
+import { loadPage, streamObject } from './fixtures/pdf-pages';
+import { walkOperators } from './operator-walker';
+import { getPageGeometry } from './page-geometry';
+
+const FORM = '/Type /XObject /Subtype /Form';
+
+// Clip chains (as path data) of the filled paths of a 200 x 200 page, in paint order
+async function fillClipsOf(pageEntries: string, extraObjects: string[]) {
+    const page = await loadPage(`/MediaBox [0 0 200 200] ${pageEntries}`, extraObjects);
+    const ops = await page.getOperatorList();
+    const fills: Array<string | undefined> = [];
+    const clips = walkOperators(ops, { geometry: getPageGeometry(page), paints: new Map(), cmykConversion: 'rendered' }, {}, (fn, args, i, state) => {
+        if (fn === pdfjsLib.OPS.fill) fills.push(state.clipId);
+    });
+    return fills.map(clipId => clipId ? clips[clipId].map(clip => clip.d) : []);
+}
+
+describe('walkOperators clips', () => {
+    it('clips form content to the form /BBox, placed by the form /Matrix', async () => {
+        const clips = await fillClipsOf('/Contents 4 0 R /Resources << /XObject << /Fm0 5 0 R >> >>', [
+            streamObject('/Fm0 Do 0 0 50 50 re f'),
+            streamObject('0 0 50 50 re f', `${FORM} /BBox [0 0 10 10] /Matrix [2 0 0 2 10 20]`)
+        ]);
+        expect(clips).toEqual([['M 10 180 L 30 180 L 30 160 L 10 160 Z'], []]);
+    });
+
+    it('places clipping paths inside a form through the form /Matrix', async () => {
+        const clips = await fillClipsOf('/Contents 4 0 R /Resources << /XObject << /Fm0 5 0 R >> >>', [
+            streamObject('/Fm0 Do'),
+            streamObject('0 0 5 5 re W n 0 0 10 10 re f', `${FORM} /BBox [0 0 100 100] /Matrix [2 0 0 2 0 0]`)
+        ]);
+        expect(clips).toEqual([['M 0 200 L 10 200 L 10 190 L 0 190 Z']]);
+    });
+
+    it('nests the form /BBox inside the clip the form is painted in', async () => {
+        const clips = await fillClipsOf('/Contents 4 0 R /Resources << /XObject << /Fm0 5 0 R >> >>', [
+            streamObject('0 0 100 100 re W n /Fm0 Do'),
+            streamObject('0 0 50 50 re f', `${FORM} /BBox [0 0 20 20]`)
+        ]);
+        expect(clips).toEqual([['M 0 200 L 100 200 L 100 100 L 0 100 Z', 'M 0 200 L 20 200 L 20 180 L 0 180 Z']]);
+    });
+
+    it('clips annotation appearances to the annotation rect only', async () => {
+        const clips = await fillClipsOf('/Contents 4 0 R /Annots [5 0 R]', [
+            streamObject('0 0 100 100 re W n 0 0 50 50 re f'),
+            '<< /Type /Annot /Subtype /Square /Rect [100 100 150 130] /AP << /N 6 0 R >> >>',
+            streamObject('0 0 50 30 re f', `${FORM} /BBox [0 0 50 30]`)
+        ]);
+        expect(clips).toEqual([
+            ['M 0 200 L 100 200 L 100 100 L 0 100 Z'],
+            ['M 100 100 L 150 100 L 150 70 L 100 70 Z']
+        ]);
+    });
+});
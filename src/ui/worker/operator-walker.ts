@@ -0,0 +1,221 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import { CmykConversion, paintColor, PaintSource, RGB, SpotTint } from './color-spaces';
+import { buildPathData, multiplyTransform, PageGeometry, PageViewport } from './page-geometry';
+import type { ClipPath } from './pdf-processor';
+
+// Replays the graphics state of an operator list the way PDF.js's canvas does. Every pass that reads
+// the operator list (vectors, clips, images, text outlines) walks it through here, so they all agree
+// on where and in which paint an operator draws:
+// - form XObjects (paintFormXObjectBegin/End) save the state, apply their /Matrix and clip to their /BBox
+//   (transparency group forms pass the BBox on beginGroup instead);
+// - soft mask groups (beginGroup with `smask`) only shape a mask: everything up to their endGroup is skipped;
+// - annotation appearances start over from the initial state, clipped to the annotation rect and placed
+//   by the annotation's transform and appearance matrix.
+// Clips follow clip/eoClip through the state; each clip gets an id naming its chain of intersected paths.
+
+type OperatorList = { fnArray: number[], argsArray: any[] };
+
+export interface GraphicsState {
+    matrix: number[]; // CTM, user space -> PDF page space (the page geometry maps on from there)
+    clipId?: string; // Clip in effect (undefined = unclipped)
+    fillColor: RGB;
+    strokeColor: RGB;
+    fillSpot?: SpotTint; // Spot color behind the solid color, if any
+    strokeSpot?: SpotTint;
+    fillAlpha: number;
+    strokeAlpha: number;
+    lineWidth: number;
+    lineCap: number;
+    lineJoin: number;
+    miterLimit: number;
+    dashArray: number[];
+}
+
+// Path being built by constructPath ops, until a painting operator (or endPath) consumes it
+export interface CurrentPath {
+    d: string; // Viewport coordinates
+    matrix: number[]; // CTM when the path was started
+}
+
+export interface WalkOptions {
+    geometry: PageGeometry;
+    paints: Map<number, PaintSource>; // Traced color sources by operator index (see tracePaints)
+    cmykConversion: CmykConversion;
+    clipPrefix?: string; // Clip ids are `${clipPrefix}${n}` ("clip" by default): walks of different operator lists need their own
+}
+
+// Called for every operator outside soft masks, once the walker has applied it to the state.
+// `state` is replaced on restore: read it during the call, copy what is kept.
+export type OperatorVisitor<T> = (fn: number, args: any[], index: number, state: GraphicsState & T, path: CurrentPath) => void;
+
+const IDENTITY = [1, 0, 0, 1, 0, 0];
+
+const PATH_TERMINATORS = new Set<number>([
+    pdfjsLib.OPS.fill, pdfjsLib.OPS.eoFill, pdfjsLib.OPS.stroke, pdfjsLib.OPS.closeStroke,
+    pdfjsLib.OPS.fillStroke, pdfjsLib.OPS.eoFillStroke, pdfjsLib.OPS.closeFillStroke,
+    pdfjsLib.OPS.closeEOFillStroke, pdfjsLib.OPS.endPath
+]);
+
+// True if the op batch is a single rectangle covering the whole page once transformed by `m`
+function coversPage(pathOps: number[], coords: number[], m: number[], viewport: PageViewport) {
+    if (pathOps.length !== 1 || pathOps[0] !== pdfjsLib.OPS.rectangle) return false;
+
+    const [x, y, w, h] = coords;
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const [px, py] of [[x, y], [x + w, y], [x, y + h], [x + w, y + h]]) {
+        xs.push(m[0] * px + m[2] * py + m[4]);
+        ys.push(m[1] * px + m[3] * py + m[5]);
+    }
+
+    // Must also be axis aligned, otherwise its bounding box overstates the covered area
+    const axisAligned = (Math.abs(m[1]) < 1e-6 && Math.abs(m[2]) < 1e-6) || (Math.abs(m[0]) < 1e-6 && Math.abs(m[3]) < 1e-6);
+    const tolerance = 1;
+    return axisAligned &&
+        Math.min(...xs) <= tolerance && Math.min(...ys) <= tolerance &&
+        Math.max(...xs) >= viewport.width - tolerance && Math.max(...ys) >= viewport.height - tolerance;
+}
+
+// `extra` holds a pass's own state fields: they are saved and restored along with the graphics state.
+// Returns the clip chains (outermost first) by clip id; walks of the same operator list give the same ids.
+export function walkOperators<T extends object>(ops: OperatorList, options: WalkOptions, extra: T, visit: OperatorVisitor<T>) {
+    const { OPS } = pdfjsLib;
+    const { geometry, paints, cmykConversion, clipPrefix = 'clip' } = options;
+    const { viewport } = geometry;
+
+    const initial: GraphicsState & T = {
+        matrix: IDENTITY,
+        fillColor: { r: 0, g: 0, b: 0 },
+        strokeColor: { r: 0, g: 0, b: 0 },
+        fillAlpha: 1,
+        strokeAlpha: 1,
+        lineWidth: 1,
+        lineCap: 0,
+        lineJoin: 0,
+        miterLimit: 10,
+        dashArray: [],
+        ...extra
+    };
+    let state = { ...initial };
+    let stack: Array<typeof state> = [];
+    let path: CurrentPath = { d: '', matrix: state.matrix };
+    let pathIsPageRect = false;
+    let pendingClip: ClipPath['windingRule'] | null = null;
+    let maskDepth = 0; // Nesting of groups inside a skipped soft mask
+
+    const clips: Record<string, ClipPath[]> = {};
+    let nextClip = 0;
+    const addClip = (d: string, windingRule: ClipPath['windingRule']) => {
+        const id = `${clipPrefix}${nextClip++}`;
+        clips[id] = [...(state.clipId ? clips[state.clipId] : []), { d: d.trim(), windingRule }];
+        state.clipId = id;
+    };
+    // Clips to `rect` ([x0, y0, x1, y1] in the space `m` maps to PDF page space). A clip to the whole
+    // page changes nothing visually and is skipped to avoid mask noise.
+    const clipToRect = (rect: number[], m: number[]) => {
+        if (!Array.isArray(rect) || rect.length !== 4) return;
+        const coords = [rect[0], rect[1], rect[2] - rect[0], rect[3] - rect[1]];
+        const toViewport = multiplyTransform(m, viewport.transform);
+        if (!coversPage([OPS.rectangle], coords, toViewport, viewport)) {
+            addClip(buildPathData([OPS.rectangle], coords, toViewport), 'NONZERO');
+        }
+    };
+
+    for (let i = 0; i < ops.fnArray.length; i++) {
+        const fn = ops.fnArray[i];
+        const args = ops.argsArray[i];
+
+        if (maskDepth > 0) {
+            if (fn === OPS.beginGroup) maskDepth++;
+            else if (fn === OPS.endGroup) maskDepth--;
+            continue;
+        }
+
+        if (fn === OPS.save) {
+            stack.push({ ...state });
+        }
+        else if (fn === OPS.restore || fn === OPS.paintFormXObjectEnd) {
+            if (stack.length > 0) state = stack.pop()!;
+        }
+        else if (fn === OPS.transform) {
+            state.matrix = multiplyTransform(args, state.matrix);
+        }
+        // [matrix, bbox]
+        else if (fn === OPS.paintFormXObjectBegin) {
+            stack.push({ ...state });
+            if (Array.isArray(args[0]) && args[0].length === 6) state.matrix = multiplyTransform(args[0], state.matrix);
+            if (args[1]) clipToRect(args[1], state.matrix);
+        }
+        else if (fn === OPS.beginGroup) {
+            if (args[0]?.smask) {
+                maskDepth = 1;
+                continue;
+            }
+            stack.push({ ...state });
+            const { matrix, bbox } = args[0] || {};
+            if (bbox) clipToRect(bbox, Array.isArray(matrix) ? multiplyTransform(matrix, state.matrix) : state.matrix);
+        }
+        else if (fn === OPS.endGroup) {
+            if (stack.length > 0) state = stack.pop()!;
+        }
+        // [id, rect, transform, matrix, hasOwnCanvas]: the appearance stream maps through its matrix, then the transform
+        else if (fn === OPS.beginAnnotation) {
+            stack = [];
+            state = { ...initial };
+            clipToRect(args[1], IDENTITY);
+            state.matrix = multiplyTransform(args[3] || IDENTITY, args[2] || IDENTITY);
+        }
+        else if (fn === OPS.endAnnotation) {
+            stack = [];
+            state = { ...initial };
+        }
+        // Color state. PDF.js has converted every color space to RGB bytes; the spot ink and
+        // CMYK components behind them come from the raw content walk (see color-spaces.ts).
+        else if (fn === OPS.setFillRGBColor) {
+            state.fillColor = paintColor(args, paints.get(i), cmykConversion);
+            state.fillSpot = paints.get(i)?.spot;
+        }
+        else if (fn === OPS.setStrokeRGBColor) {
+            state.strokeColor = paintColor(args, paints.get(i), cmykConversion);
+            state.strokeSpot = paints.get(i)?.spot;
+        }
+        // Stroke style
+        else if (fn === OPS.setLineWidth) state.lineWidth = args[0];
+        else if (fn === OPS.setLineCap) state.lineCap = args[0];
+        else if (fn === OPS.setLineJoin) state.lineJoin = args[0];
+        else if (fn === OPS.setMiterLimit) state.miterLimit = args[0];
+        else if (fn === OPS.setDash) state.dashArray = [...args[0]];
+        else if (fn === OPS.setGState) {
+            // args[0] is a list of [key, value] pairs from the ExtGState dictionary
+            for (const [key, value] of args[0]) {
+                if (key === 'LW') state.lineWidth = value;
+                else if (key === 'LC') state.lineCap = value;
+                else if (key === 'LJ') state.lineJoin = value;
+                else if (key === 'ML') state.miterLimit = value;
+                else if (key === 'D') state.dashArray = [...value[0]];
+                else if (key === 'ca') state.fillAlpha = value;
+                else if (key === 'CA') state.strokeAlpha = value;
+            }
+        }
+        // Path construction: PDF.js batches moveTo/lineTo/curveTo/rectangle into constructPath
+        else if (fn === OPS.constructPath) {
+            if (!path.d) path = { d: '', matrix: state.matrix };
+            const m = multiplyTransform(path.matrix, viewport.transform);
+            pathIsPageRect = !path.d && coversPage(args[0], args[1], m, viewport);
+            path.d += buildPathData(args[0], args[1], m);
+        }
+        else if (fn === OPS.clip) pendingClip = 'NONZERO';
+        else if (fn === OPS.eoClip) pendingClip = 'EVENODD';
+
+        visit(fn, args, i, state, path);
+
+        // Any painting operator (or endPath) consumes the current path. Like PDF.js, a clip takes
+        // effect there, after the path itself was painted.
+        if (PATH_TERMINATORS.has(fn)) {
+            if (pendingClip && path.d && !pathIsPageRect) addClip(path.d, pendingClip);
+            pendingClip = null;
+            path = { d: '', matrix: state.matrix };
+        }
+    }
+    return clips;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { loadPage, streamObject } from './fixtures/pdf-pages';
+import { findImagePaints } from './image-paints';
+import { extractNativePaths } from './native-paths';
+import { getPageGeometry, PageGeometry } from './page-geometry';
+
+const apply = (m: number[], x: number, y: number) => [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+
+// PDF user space point -> [viewport (y down), upright (y up)], rounded against float noise
+const place = (geometry: PageGeometry, x: number, y: number) => [
+    geometry.viewport.convertToViewportPoint(x, y).map(Math.round),
+    apply(geometry.toUpright, x, y).map(Math.round)
+];
+
+describe('getPageGeometry', () => {
+    it('keeps an unrotated page as is', async () => {
+        const geometry = getPageGeometry(await loadPage('/MediaBox [0 0 200 100]'));
+        expect([geometry.width, geometry.height, geometry.scale]).toEqual([200, 100, 1]);
+        expect(place(geometry, 10, 20)).toEqual([[10, 80], [10, 20]]);
+    });
+
+    // The user space origin (bottom-left of the unrotated page) lands on a different corner per /Rotate
+    it.each([
+        [90, [100, 200], [[0, 0], [0, 200]]],
+        [180, [200, 100], [[200, 0], [200, 100]]],
+        [270, [100, 200], [[100, 200], [100, 0]]]
+    ])('turns the page clockwise for /Rotate %i', async (rotate, size, origin) => {
+        const geometry = getPageGeometry(await loadPage(`/MediaBox [0 0 200 100] /Rotate ${rotate}`));
+        expect([geometry.width, geometry.height]).toEqual(size);
+        expect(place(geometry, 0, 0)).toEqual(origin);
+    });
+
+    it('maps /Rotate 90 content along the rotated axes', async () => {
+        const geometry = getPageGeometry(await loadPage('/MediaBox [0 0 200 100] /Rotate 90'));
+        // Bottom-right of the unrotated page ends up bottom-left
+        expect(place(geometry, 200, 0)).toEqual([[0, 200], [0, 0]]);
+    });
+
+    it('shifts a CropBox with a non-zero origin to the page origin', async () => {
+        const geometry = getPageGeometry(await loadPage('/MediaBox [0 0 300 200] /CropBox [50 30 250 130]'));
+        expect([geometry.width, geometry.height]).toEqual([200, 100]);
+        expect(place(geometry, 50, 30)).toEqual([[0, 100], [0, 0]]);
+        expect(place(geometry, 250, 130)).toEqual([[200, 0], [200, 100]]);
+    });
+
+    it('scales by UserUnit', async () => {
+        const geometry = getPageGeometry(await loadPage('/MediaBox [0 0 200 100] /UserUnit 2'));
+        expect([geometry.width, geometry.height, geometry.scale]).toEqual([400, 200, 2]);
+        expect(place(geometry, 10, 20)).toEqual([[20, 160], [20, 40]]);
+    });
+
+    it('combines rotation, CropBox offset and UserUnit', async () => {
+        const geometry = getPageGeometry(await loadPage('/MediaBox [0 0 300 200] /CropBox [50 30 250 130] /Rotate 90 /UserUnit 2'));
+        expect([geometry.width, geometry.height]).toEqual([200, 400]);
+        expect(place(geometry, 50, 30)).toEqual([[0, 0], [0, 400]]);
+    });
+});
+
+describe('extraction on a rotated, cropped page', () => {
+    // /Rotate 90 with a CropBox offset: a 100 x 200 viewport with user space (50, 30) at its top-left.
+    // A form XObject moves its content there, draws a 20 x 10 rectangle and stretches an image over it.
+    async function extract() {
+        const page = await loadPage('/MediaBox [0 0 300 200] /CropBox [50 30 250 130] /Rotate 90 /Contents 4 0 R /Resources << /XObject << /Fm0 5 0 R >> >>', [
+            streamObject('/Fm0 Do'),
+            streamObject('0 0 20 10 re f 20 0 0 10 0 0 cm /Im0 Do', '/Type /XObject /Subtype /Form /BBox [0 0 20 10] /Matrix [1 0 0 1 50 30] /Resources << /XObject << /Im0 6 0 R >> >>'),
+            streamObject('A', '/Type /XObject /Subtype /Image /Width 1 /Height 1 /ColorSpace /DeviceGray /BitsPerComponent 8')
+        ]);
+        const ops = await page.getOperatorList();
+        const options = { geometry: getPageGeometry(page), paints: new Map(), cmykConversion: 'rendered' as const };
+        return { paths: extractNativePaths(ops, page.objs, options)!, images: findImagePaints(ops, options) };
+    }
+
+    it('puts native paths in viewport space', async () => {
+        const { paths } = await extract();
+        expect(paths.map(path => path.d)).toEqual(['M 0 0 L 0 20 L 10 20 L 10 0 Z']);
+    });
+
+    it('puts images in upright space, along the rotated axes', async () => {
+        const { images } = await extract();
+        // Image x runs down the page (upright y decreasing), image y across it
+        expect(images[0].transform.map(v => Math.round(v) + 0)).toEqual([0, -20, 10, 0, 0, 200]);
+    });
+});
@@ -0,0 +1,88 @@
+import * as pdfjsLib from 'pdfjs-dist';
+
+// One coordinate system per page, derived from a single viewport so every layer lines up.
+// The viewport applies /Rotate, the CropBox origin and UserUnit; two spaces come out of it:
+// - viewport space: top-left origin, y down. Paths, clips, links and the Figma frame use it.
+// - upright space: bottom-left origin, y up. Text and image matrices use it, so the grouping and
+//   placement code can keep its PDF conventions (baseline y grows upwards) on any page geometry.
+// Both are in points scaled by UserUnit, with the page spanning [0, width] x [0, height].
+
+export type PageViewport = ReturnType<pdfjsLib.PDFPageProxy['getViewport']>;
+
+export interface PageGeometry {
+    viewport: PageViewport;
+    width: number;
+    height: number;
+    scale: number; // UserUnit: points per PDF user space unit
+    toUpright: number[]; // PDF user space -> upright space
+}
+
+// m1 * m2 for PDF matrices [a, b, c, d, e, f]: applies m1 first, then m2
+export function multiplyTransform(m1: number[], m2: number[]) {
+    return [
+        m1[0] * m2[0] + m1[1] * m2[2],
+        m1[0] * m2[1] + m1[1] * m2[3],
+        m1[2] * m2[0] + m1[3] * m2[2],
+        m1[2] * m2[1] + m1[3] * m2[3],
+        m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+        m1[4] * m2[1] + m1[5] * m2[3] + m2[5]
+    ];
+}
+
+export function getPageGeometry(page: pdfjsLib.PDFPageProxy): PageGeometry {
+    const scale = page.userUnit || 1;
+    const viewport = page.getViewport({ scale });
+    return {
+        viewport,
+        width: viewport.width,
+        height: viewport.height,
+        scale,
+        // Viewport space flipped back to y-up within the visible page
+        toUpright: multiplyTransform(viewport.transform, [1, 0, 0, -1, 0, viewport.height])
+    };
+}
+
+// Converts a constructPath op batch to SVG path data, transforming each point by `m`.
+// curveTo2 (v) reuses the current point as first control point, curveTo3 (y) the end point as second.
+export function buildPathData(pathOps: number[], coords: number[], m: number[]) {
+    const { OPS } = pdfjsLib;
+    const pt = (x: number, y: number) => {
+        const px = m[0] * x + m[2] * y + m[4];
+        const py = m[1] * x + m[3] * y + m[5];
+        return `${+px.toFixed(3)} ${+py.toFixed(3)}`;
+    };
+
+    let d = "";
+    let j = 0;
+    let x = 0;
+    let y = 0;
+    for (const op of pathOps) {
+        if (op === OPS.moveTo) {
+            x = coords[j++]; y = coords[j++];
+            d += `M ${pt(x, y)} `;
+        } else if (op === OPS.lineTo) {
+            x = coords[j++]; y = coords[j++];
+            d += `L ${pt(x, y)} `;
+        } else if (op === OPS.curveTo) {
+            d += `C ${pt(coords[j], coords[j + 1])} ${pt(coords[j + 2], coords[j + 3])} ${pt(coords[j + 4], coords[j + 5])} `;
+            x = coords[j + 4]; y = coords[j + 5];
+            j += 6;
+        } else if (op === OPS.curveTo2) {
+            d += `C ${pt(x, y)} ${pt(coords[j], coords[j + 1])} ${pt(coords[j + 2], coords[j + 3])} `;
+            x = coords[j + 2]; y = coords[j + 3];
+            j += 4;
+        } else if (op === OPS.curveTo3) {
+            x = coords[j + 2]; y = coords[j + 3];
+            d += `C ${pt(coords[j], coords[j + 1])} ${pt(x, y)} ${pt(x, y)} `;
+            j += 4;
+        } else if (op === OPS.rectangle) {
+            const [rx, ry, rw, rh] = coords.slice(j, j + 4);
+            d += `M ${pt(rx, ry)} L ${pt(rx + rw, ry)} L ${pt(rx + rw, ry + rh)} L ${pt(rx, ry + rh)} Z `;
+            x = rx; y = ry;
+            j += 4;
+        } else if (op === OPS.closePath) {
+            d += "Z ";
+        }
+    }
+    return d;
+}
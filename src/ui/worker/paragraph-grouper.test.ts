@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { textItem, textLines } from './fixtures/text-items';
+import { groupTextItems } from './paragraph-grouper';
+
+const BOLD = { fontWeight: 700, fontName: 'g_d0_f2' };
+
+describe('groupTextItems', () => {
+    it('keeps a wrapped line that starts with a bold word in the paragraph, as a run', () => {
+        const items = [
+            textItem('The first line of a paragraph that wraps', 50, 700),
+            textItem('Important', 50, 688, BOLD),
+            textItem('words start the second line of it', 100, 688)
+        ];
+        const [paragraph, ...rest] = groupTextItems(items);
+
+        expect(rest).toHaveLength(0);
+        expect(paragraph.text).toBe('The first line of a paragraph that wraps Important words start the second line of it');
+        expect(paragraph.runs.map(run => paragraph.text.slice(run.start, run.end).trim())).toEqual([
+            'The first line of a paragraph that wraps', 'Important', 'words start the second line of it'
+        ]);
+        expect(paragraph.runs[1].fontWeight).toBe(700);
+    });
+
+    it('keeps a colored link that wraps onto the next line in the paragraph', () => {
+        const items = [
+            textItem('See the documentation at', 50, 700),
+            textItem('example.com', 50, 688, { color: '#0000ff' }),
+            textItem('for details', 110, 688)
+        ];
+        expect(groupTextItems(items)).toHaveLength(1);
+    });
+
+    it('starts a new paragraph where the leading opens up', () => {
+        const items = [
+            ...textLines(['First paragraph line one', 'first paragraph line two'], 50, 700),
+            textItem('Second paragraph after a gap', 50, 670)
+        ];
+        expect(groupTextItems(items).map(paragraph => paragraph.lines.length)).toEqual([2, 1]);
+    });
+
+    it('starts a new paragraph when the left edge moves', () => {
+        const items = [
+            ...textLines(['Body text line one', 'body text line two'], 50, 700),
+            textItem('Quoted text further in', 80, 676)
+        ];
+        expect(groupTextItems(items)).toHaveLength(2);
+    });
+
+    it('keeps centred lines of different lengths together', () => {
+        const items = [
+            textItem('A centred title line', 250, 700),
+            textItem('with a longer second line', 235, 688),
+            textItem('and a short third', 255, 676)
+        ];
+        expect(groupTextItems(items)).toHaveLength(1);
+    });
+
+    it('keeps a larger heading apart from the body below it', () => {
+        const items = [
+            textItem('Heading', 50, 716, { fontSize: 16, ...BOLD }),
+            ...textLines(['Body text line one', 'body text line two'], 50, 700)
+        ];
+        expect(groupTextItems(items).map(paragraph => paragraph.text)).toEqual(['Heading', 'Body text line one body text line two']);
+    });
+
+    it('makes a decimal list starting at 1 an ORDERED list without its markers', () => {
+        const paragraphs = groupTextItems(textLines(['1. First item', '2. Second item', '3. Third item'], 50, 700));
+        expect(paragraphs.map(({ list, text }) => ({ list, text }))).toEqual([
+            { list: 'ORDERED', text: 'First item\nSecond item\nThird item' }
+        ]);
+    });
+
+    it('keeps the markers of lettered lists and of lists that do not start at 1', () => {
+        const lettered = groupTextItems(textLines(['a) First item', 'b) Second item'], 50, 700));
+        expect(lettered.map(({ list, text }) => ({ list, text }))).toEqual([
+            { list: undefined, text: 'a) First item' },
+            { list: undefined, text: 'b) Second item' }
+        ]);
+
+        // Continued from the previous page
+        const continued = groupTextItems(textLines(['4. Fourth item', '5. Fifth item'], 50, 700));
+        expect(continued.map(paragraph => paragraph.list)).toEqual([undefined, undefined]);
+        expect(continued.map(paragraph => paragraph.text)).toEqual(['4. Fourth item', '5. Fifth item']);
+
+        // Picked up again after a paragraph
+        const interrupted = groupTextItems([
+            ...textLines(['1. First item', '2. Second item'], 50, 700),
+            textItem('A paragraph in between', 50, 670),
+            textItem('3. Third item', 50, 640)
+        ]);
+        expect(interrupted.map(({ list, text }) => ({ list, text }))).toEqual([
+            { list: 'ORDERED', text: 'First item\nSecond item' },
+            { list: undefined, text: 'A paragraph in between' },
+            { list: undefined, text: '3. Third item' }
+        ]);
+    });
+});
@@ -29,9 +29,34 @@ export interface TextItem {
     matrix: number[]; // Full 6-element matrix [a, b, c, d, tx, ty]
     isRTL?: boolean;
     hasClip?: boolean;
+    outlined?: boolean; // Font unavailable in Figma or Type3: rendered from glyph outlines
     transform: number[]; // Keep original transform for ref
 }
 
+// Page region a paragraph came from, see layout-analyzer
+export type BlockType = 'body' | 'column' | 'sidebar' | 'header' | 'footer';
+
+export type ListType = 'ORDERED' | 'UNORDERED';
+
+// Bullet glyphs (including the private-use code points Symbol/Wingdings bullets map to)
+// and "1." / "a)" / "iv." numbering, followed by whitespace or nothing
+const BULLET_PATTERN = /^\s*([•◦▪▫‣⁃∙●○■□➢►–\-*\uF0B7\uF0A7\uF076\uF0D8])(\s+|$)/;
+const NUMBER_PATTERN = /^\s*(\d{1,3}|[a-z]|[ivx]{1,4})[.)](\s+|$)/;
+
+// Character range [start, end) of Paragraph.text drawn in one style
+export interface TextRun {
+    start: number;
+    end: number;
+    fontSize: number;
+    fontFamily: string;
+    fontWeight: string | number;
+    fontStyle: string;
+    rawFontName?: string;
+    color?: string;
+    opacity?: number;
+    outlined?: boolean; // Drawn as vector outlines by the importer; the text stays as a hidden/transparent layer
+}
+
 export interface Paragraph {
     type: 'paragraph';
     text: string;
@@ -51,12 +76,77 @@ export interface Paragraph {
     color?: string; // New
     letterSpacing?: number;
     lineHeight?: number;
+    horizontalScaling?: number; // Tz (percentage) of the first item
     textAlign?: 'LEFT' | 'CENTER' | 'RIGHT' | 'JUSTIFIED';
+    blockType?: BlockType;
+    matrix?: number[]; // Text matrix of the first item for rotated or skewed text; x/y are its baseline origin
+    list?: ListType; // List paragraph: one item per "\n"-separated line of text, markers stripped
+    runs: TextRun[]; // Style spans covering the whole text; the paragraph-level style is the first run's
 }
 
 export function groupTextItems(items: TextItem[]): Paragraph[] {
     if (items.length === 0) return [];
 
+    // Rotated and skewed text only merges with text of the same orientation: each orientation is
+    // grouped in its own baseline frame, then the paragraph origins are mapped back to the page
+    const orientations = new Map<string, TextItem[]>();
+    const upright: TextItem[] = [];
+    for (const item of items) {
+        const key = orientationKey(item.matrix);
+        if (key === UPRIGHT) {
+            upright.push(item);
+        } else {
+            if (!orientations.has(key)) orientations.set(key, []);
+            orientations.get(key)!.push(item);
+        }
+    }
+
+    const paragraphs = groupUprightItems(upright);
+    for (const group of orientations.values()) {
+        const matrix = group[0].matrix;
+        const scale = Math.hypot(matrix[0], matrix[1]) || 1;
+        const ux = matrix[0] / scale;
+        const uy = matrix[1] / scale;
+
+        const originals = new Map<TextItem, TextItem>();
+        const local = group.map(item => {
+            const rotated = { ...item, x: item.x * ux + item.y * uy, y: -item.x * uy + item.y * ux };
+            originals.set(rotated, item);
+            return rotated;
+        });
+        for (const para of groupUprightItems(local)) {
+            const { x, y } = para;
+            para.x = x * ux - y * uy;
+            para.y = x * uy + y * ux;
+            para.matrix = matrix;
+            para.lines = para.lines.map(line => line.map(item => originals.get(item) || item)); // Back to page space
+            paragraphs.push(para);
+        }
+    }
+    return paragraphs;
+}
+
+// True for text whose baseline runs left to right with unskewed, upright glyphs
+export function isUpright(item: TextItem) {
+    return orientationKey(item.matrix) === UPRIGHT;
+}
+
+const UPRIGHT = '0|0';
+
+// Baseline angle and skew in whole degrees. Mirrored text (negative d) shows up as a 180° skew.
+function orientationKey(matrix: number[] | undefined) {
+    if (!matrix) return UPRIGHT;
+    const [a, b, c, d] = matrix;
+    const angle = Math.atan2(b, a) * 180 / Math.PI;
+    let skew = Math.atan2(d, c) * 180 / Math.PI - angle - 90;
+    skew = ((skew % 360) + 540) % 360 - 180; // Normalize to [-180, 180)
+    const round = (value: number) => Math.round(value) || 0; // Folds -0
+    return `${round(angle)}|${round(skew)}`;
+}
+
+function groupUprightItems(items: TextItem[]): Paragraph[] {
+    if (items.length === 0) return [];
+
     // Sort items by Y (descending for PDF bottom-up coords) then X (ascending)
     const sorted = [...items].sort((a, b) => {
         const yDiff = b.y - a.y;
@@ -68,12 +158,12 @@ export function groupTextItems(items: TextItem[]): Paragraph[] {
     let currentPara: Paragraph | null = null;
     let lastItem: TextItem | null = null;
 
-    for (const item of sorted) {
+    for (const item of attachListMarkers(sorted)) {
         if (!item.str.trim()) continue; // Skip empty whitespace items
 
         if (!currentPara) {
             // Start new paragraph
-            currentPara = createNewParagraph(item);
+            currentPara = createNewParagraph(item, listItemMarker(parseListMarker(item.str)));
             lastItem = item;
             continue;
         }
@@ -84,21 +174,38 @@ export function groupTextItems(items: TextItem[]): Paragraph[] {
         const verticalTolerance = Math.max(1, item.fontSize * 0.1);
         const sameLine = Math.abs(item.y - (lastItem?.y || 0)) < verticalTolerance;
 
-        // 2. Style Compatibility
-        const isCompatible =
-            item.fontFamily === currentPara.fontFamily &&
-            Math.abs(item.fontSize - currentPara.fontSize) < 1 &&
-            item.fontWeight === currentPara.fontWeight &&
-            item.fontStyle === currentPara.fontStyle &&
-            item.color === currentPara.color;
+        // 1b. List Items: a bullet or number starting a line opens a new item,
+        // in the current list when it continues it, otherwise as a new (list) paragraph
+        const marker = sameLine ? null : parseListMarker(item.str);
+        if (marker) {
+            if (continuesList(currentPara, marker) && isNextListItem(currentPara, item)) {
+                appendText(currentPara, '\n', lastItem!); // The line break belongs to the previous item's run
+                appendText(currentPara, marker.text, item);
+                currentPara.width = Math.max(currentPara.width, item.x + item.width - currentPara.x);
+                currentPara.lines.push([item]);
+            } else {
+                paragraphs.push(currentPara);
+                currentPara = createNewParagraph(item, listItemMarker(marker));
+            }
+            lastItem = item;
+            continue;
+        }
+
+        // 2. Size Compatibility
+        // Any style change (bold word, colored link) becomes a run of the same paragraph, also at the
+        // start of a wrapped line. Within a line the size may vary a little; a new line keeps the
+        // paragraph's size and its line geometry decides the rest (see isVerticallyConsecutive).
+        const isSameSize = Math.abs(item.fontSize - currentPara.fontSize) < 1;
+        const sizeRatio = item.fontSize / currentPara.fontSize;
+        const isInlineCompatible = sizeRatio > 0.7 && sizeRatio < 1.4;
 
         // 3. Column Detection
         const horizontalGap = item.x - ((lastItem?.x || 0) + (lastItem?.width || 0));
         const isFarApart = horizontalGap > (item.fontSize * 3);
 
-        if (sameLine && isCompatible && !isFarApart) {
+        if (sameLine && isInlineCompatible && !isFarApart) {
             // A) Append to current line
-            currentPara.text += (item.str.startsWith(' ') ? '' : ' ') + item.str;
+            appendText(currentPara, (item.str.startsWith(' ') || atItemStart(currentPara) ? '' : ' ') + item.str, item);
             const currentRight = item.x + item.width;
             const startX = currentPara.x;
             currentPara.width = Math.max(currentPara.width, currentRight - startX);
@@ -107,9 +214,9 @@ export function groupTextItems(items: TextItem[]): Paragraph[] {
             currentPara.lines[currentPara.lines.length - 1].push(item);
             lastItem = item;
 
-        } else if (isCompatible && isVerticallyConsecutive(currentPara, item, lastItem!)) {
+        } else if (isSameSize && isVerticallyConsecutive(currentPara, item, lastItem!)) {
             // B) Next Line (Vertical Merge in same paragraph)
-            currentPara.text += ' ' + item.str; // Simple space join
+            appendText(currentPara, (atItemStart(currentPara) ? '' : ' ') + item.str, item); // Simple space join
 
             // Update width if this new line is wider
             currentPara.width = Math.max(currentPara.width, item.width);
@@ -190,10 +297,117 @@ export function groupTextItems(items: TextItem[]): Paragraph[] {
 
 // Helpers
 
-function createNewParagraph(item: TextItem): Paragraph {
+function createRun(item: TextItem, start: number, end: number): TextRun {
+    return {
+        start,
+        end,
+        fontSize: item.fontSize,
+        fontFamily: item.fontFamily,
+        fontWeight: item.fontWeight,
+        fontStyle: item.fontStyle,
+        rawFontName: item.rawFontName,
+        color: item.color,
+        opacity: item.opacity,
+        outlined: item.outlined
+    };
+}
+
+function sameRunStyle(run: TextRun, item: TextItem) {
+    return run.fontFamily === item.fontFamily &&
+        Math.abs(run.fontSize - item.fontSize) < 0.5 &&
+        run.fontWeight === item.fontWeight &&
+        run.fontStyle === item.fontStyle &&
+        run.rawFontName === item.rawFontName &&
+        run.color === item.color &&
+        run.opacity === item.opacity &&
+        run.outlined === item.outlined;
+}
+
+// Nothing to separate from: an empty paragraph or a list item whose marker had no text after it
+function atItemStart(para: Paragraph) {
+    return para.text === '' || para.text.endsWith('\n');
+}
+
+// Append text (including its leading separator) and extend or start the matching style run
+function appendText(para: Paragraph, text: string, item: TextItem) {
+    const start = para.text.length;
+    para.text += text;
+
+    const lastRun = para.runs[para.runs.length - 1];
+    if (sameRunStyle(lastRun, item)) {
+        lastRun.end = para.text.length;
+    } else {
+        para.runs.push(createRun(item, start, para.text.length));
+    }
+}
+
+interface ListMarker {
+    type: ListType;
+    text: string; // What follows the marker
+    number?: number; // Decimal numbering only
+}
+
+// "• Text" -> { UNORDERED, "Text" }; null when the string does not start with a list marker
+export function parseListMarker(str: string): ListMarker | null {
+    const bullet = BULLET_PATTERN.exec(str);
+    if (bullet) return { type: 'UNORDERED', text: str.slice(bullet[0].length) };
+    const number = NUMBER_PATTERN.exec(str);
+    if (number) return { type: 'ORDERED', text: str.slice(number[0].length), number: /^\d+$/.test(number[1]) ? Number(number[1]) : undefined };
+    return null;
+}
+
+// Figma numbers an ORDERED list itself, 1, 2, 3...: only a decimal list starting at 1 becomes one.
+// Letters, roman numerals and lists picking up after a page break or an interruption keep their marker as text.
+function listItemMarker(marker: ListMarker | null) {
+    return marker && (marker.type === 'UNORDERED' || marker.number === 1) ? marker : null;
+}
+
+// Whether `marker` is the next item of the list paragraph `para` (its items are "\n"-separated)
+function continuesList(para: Paragraph, marker: ListMarker) {
+    if (para.list !== marker.type) return false;
+    return marker.type === 'UNORDERED' || marker.number === para.text.split('\n').length + 1;
+}
+
+// Bullets are often their own text item (a Symbol glyph followed by a tab stop). Merge each
+// marker-only item into the next item on its baseline, so layout analysis does not read the
+// marker column as a separate block and list detection sees "• Text".
+export function attachListMarkers(items: TextItem[]): TextItem[] {
+    const merged = new Set<TextItem>();
+    const replaced = new Map<TextItem, TextItem>();
+
+    for (const marker of items) {
+        const parsed = parseListMarker(marker.str);
+        if (!parsed || parsed.text.trim()) continue;
+
+        let next: TextItem | null = null;
+        for (const candidate of items) {
+            if (candidate === marker || merged.has(candidate) || !candidate.str.trim()) continue;
+            const gap = candidate.x - (marker.x + marker.width);
+            const tolerance = Math.max(candidate.fontSize, marker.fontSize) * 0.5;
+            if (gap < -1 || gap > candidate.fontSize * 3 || Math.abs(candidate.y - marker.y) > tolerance) continue;
+            if (!next || candidate.x < next.x) next = candidate;
+        }
+        if (!next) continue;
+
+        merged.add(marker);
+        replaced.set(next, {
+            ...next,
+            str: `${marker.str.trim()} ${next.str.replace(/^\s+/, '')}`,
+            x: marker.x,
+            width: next.x + next.width - marker.x
+        });
+    }
+
+    if (merged.size === 0) return items;
+    return items.filter(item => !merged.has(item)).map(item => replaced.get(item) || item);
+}
+
+function createNewParagraph(item: TextItem, marker?: ListMarker | null): Paragraph {
+    const text = marker ? marker.text : item.str;
     return {
         type: 'paragraph',
-        text: item.str,
+        text,
+        list: marker?.type,
         lines: [[item]],
         x: item.x,
         y: item.y,
@@ -209,10 +423,21 @@ function createNewParagraph(item: TextItem): Paragraph {
         structRole: item.structRole,
         mcid: item.mcid,
         letterSpacing: item.letterSpacing,
-        lineHeight: item.lineHeight
+        lineHeight: item.lineHeight,
+        horizontalScaling: item.horizontalScaling,
+        runs: [createRun(item, 0, text.length)]
     };
 }
 
+// Next marker of the same list: same marker column and size, one to three lines further down
+function isNextListItem(list: Paragraph, item: TextItem) {
+    const lastLine = list.lines[list.lines.length - 1][0];
+    const yDiff = lastLine.y - item.y;
+    return Math.abs(item.x - list.x) < list.fontSize &&
+        Math.abs(item.fontSize - list.fontSize) < 1 &&
+        yDiff > list.fontSize * 0.5 && yDiff < list.fontSize * 3;
+}
+
 function isVerticallyConsecutive(prev: Paragraph, next: TextItem, lastItem: TextItem): boolean {
     // 1. Vertical Distance Check
     const lastLineIndex = prev.lines.length - 1;
@@ -234,14 +459,32 @@ function isVerticallyConsecutive(prev: Paragraph, next: TextItem, lastItem: Text
     // Let's loosen strict x-check if it's "close enough" (indentation)
     if (Math.abs(prev.x - next.x) > prev.fontSize * 4) return false;
 
-    // 3. Color Check (New) - CRITICAL for headers vs body
-    // If the color changes, it's likely a new section.
-    if (next.color !== lastItem.color) return false;
+    // 3. Established Geometry: once a paragraph has two lines, the next one keeps their leading and
+    // starts at the same left edge (the first line alone may be indented) or, for centred text,
+    // around the same centre. Lists space their items apart and have their own rule below.
+    if (lastLineIndex > 0 && !prev.list) {
+        const leading = prev.lines[lastLineIndex - 1][0].y - lastItemInPara.y;
+        if (Math.abs(yDiff - leading) > Math.max(prev.fontSize * 0.25, 1)) return false;
+
+        const lastLineEnd = Math.max(...lastLineItems.map(item => item.x + item.width));
+        const sameLeft = Math.abs(next.x - lastItemInPara.x) <= prev.fontSize * 0.5;
+        const sameCentre = Math.abs((next.x + next.width / 2) - (lastItemInPara.x + lastLineEnd) / 2) <= prev.fontSize;
+        if (!sameLeft && !sameCentre) return false;
+    }
 
     // Structural Check: If they have different MCIDs, they are likely different semantic blocks
     if (next.mcid !== undefined && lastItem.mcid !== undefined && next.mcid !== lastItem.mcid) {
         return false;
     }
+    // List items continue only on hanging-indented lines; text back at the marker column is a new block
+    if (prev.list && next.x < prev.x + prev.fontSize * 0.5) {
+        return false;
+    }
+
+    // A heading line followed by body text with the same font is still two blocks
+    if (next.structRole !== prev.structRole) {
+        return false;
+    }
 
     return true;
 }
@@ -1,44 +1,281 @@
 import * as pdfjsLib from 'pdfjs-dist';
-import { groupTextItems, Paragraph, TextItem } from './paragraph-grouper';
-
-// Set worker source to CDN for simplicity in Figma plugin environment (avoids complex vite worker bundling)
-// In a production app you might want to bundle this, but for this plugin CDN is reliable enough.
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
+import pdfWorkerSource from 'pdfjs-dist/build/pdf.worker.min.js?raw';
+import { CmykConversion, createColorReader, PageColorReader, SpotTint, tracePaints } from './color-spaces';
+import { cropCanvas, decodeImage, decodeImageMask, encodeImage, fingerprint } from './image-decoder';
+import { findImagePaints, ImagePaint } from './image-paints';
+import { analyzeLayout } from './layout-analyzer';
+import { extractNativePaths } from './native-paths';
+import { walkOperators, WalkOptions } from './operator-walker';
+import { getPageGeometry, multiplyTransform, PageGeometry, PageViewport } from './page-geometry';
+import { Paragraph, TextItem } from './paragraph-grouper';
+import { detectTables, PageTable } from './table-detector';
+import { OutlinedRun, outlineText } from './text-outliner';
+
+// The PDF.js worker is inlined into the single-file build and started from a Blob URL,
+// so the plugin needs no network access (corporate proxies, offline use).
+// An explicit workerPort also keeps PDF.js from silently falling back to parsing on the UI thread.
+const workerUrl = URL.createObjectURL(new Blob([pdfWorkerSource], { type: 'text/javascript' }));
+pdfjsLib.GlobalWorkerOptions.workerPort = new Worker(workerUrl);
 (pdfjsLib.GlobalWorkerOptions as any).verbosity = pdfjsLib.VerbosityLevel.ERRORS; // Silence warnings
 
+type OperatorList = Awaited<ReturnType<pdfjsLib.PDFPageProxy['getOperatorList']>>;
+
+export type ImportMode = 'editable' | 'image' | 'hybrid';
+
+export type PaletteMode = 'none' | 'styles' | 'variables';
+
+export type ImageFormat = 'png' | 'jpeg';
+
+export interface ImportSettings {
+    mode: ImportMode;
+    dpi: number; // Raster resolution for image/hybrid modes (72 = 1:1)
+    pages: number[]; // 0-based page indices to import
+    textStyles: boolean; // Create local text styles from the imported text (applied by the controller)
+    palette: PaletteMode; // Collect the imported colors into paint styles or variables (applied by the controller)
+    outlineMissingFonts: boolean; // Draw text in fonts Figma lacks as vector outlines (Type3 fonts always are)
+    unavailableFonts?: string[]; // PostScript names without a Figma match, filled in by the pre-import font check
+    imageFormat: ImageFormat; // Encoding of extracted images; JPEG only applies to opaque ones
+    maxImageSize: number; // Longest side of extracted images in pixels (larger ones are downscaled)
+    cmykConversion: CmykConversion; // How CMYK vector colors become RGB (see color-spaces.ts)
+}
+
+export const DEFAULT_IMPORT_SETTINGS: ImportSettings = {
+    mode: 'editable',
+    dpi: 144,
+    pages: [],
+    textStyles: false,
+    palette: 'none',
+    outlineMissingFonts: true,
+    imageFormat: 'png',
+    maxImageSize: 4096, // Figma's own image size limit
+    cmykConversion: 'rendered'
+};
+
+// Clipping path in page (viewport) coordinates
+export interface ClipPath {
+    d: string;
+    windingRule: 'NONZERO' | 'EVENODD';
+}
+
+// Axial (Type 2) or radial (Type 3) shading as a Figma gradient.
+// `transform` maps Figma's unit gradient space (linear runs from (0, 0.5) to (1, 0.5),
+// radial is centred on (0.5, 0.5) with radius 0.5) to page (viewport) coordinates.
+export interface GradientFill {
+    type: 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL';
+    stops: Array<{ position: number, r: number, g: number, b: number, a: number }>;
+    transform: number[];
+}
+
+// Filled and/or stroked path in page (viewport) coordinates, ready for a Figma VectorNode.
+// r/g/b is the solid color; when `gradient` is set it replaces it (r/g/b then holds the first stop).
+// `spot` names the Separation color a solid color was converted from, when it could be traced.
+export interface NativePath {
+    d: string;
+    windingRule: 'NONZERO' | 'EVENODD';
+    clipId?: string;
+    fill?: { r: number, g: number, b: number, opacity: number, gradient?: GradientFill, spot?: SpotTint };
+    stroke?: {
+        r: number, g: number, b: number, opacity: number;
+        gradient?: GradientFill;
+        spot?: SpotTint;
+        width: number;
+        cap: 'NONE' | 'ROUND' | 'SQUARE';
+        join: 'MITER' | 'ROUND' | 'BEVEL';
+        miterLimit: number; // Ratio of miter length to line width, as in both PDF and Figma
+        dashPattern: number[]; // Figma has no dash offset, so the PDF dash phase is not kept
+    };
+}
+
+// Extraction passes reported while a page is processed
+export type PagePhase = 'text' | 'outlines' | 'raster' | 'svg' | 'images' | 'vectors' | 'tables' | 'links';
+
 export interface PageData {
     width: number;
     height: number;
+    mode: ImportMode;
     items: Paragraph[];
-    links?: Array<{ x: number, y: number, w: number, h: number, url: string }>;
+    links?: PageLink[];
     svg?: string;
     svgSanitized?: string;
     svgUltraSafe?: string; // New: Aggressively sanitized fallback
     image?: Uint8Array;
     extractedImages?: Array<{
         x: number, y: number, width: number, height: number,
-        data: Uint8Array, transform: number[]
-    }>;
-    nativePaths?: Array<{
-        d: string;
-        fill?: { r: number, g: number, b: number };
-        stroke?: { r: number, g: number, b: number, width: number };
-        opacity?: number;
-        transform: number[];
+        imageId: string, transform: number[],
+        clipId?: string
     }>;
+    images?: Record<string, Uint8Array>; // Encoded bytes of the extracted images this page uses first
+    nativePaths?: NativePath[];
+    tables?: PageTable[]; // Their text and ruling paths are removed from items/nativePaths
+    textOutlines?: NativePath[]; // Glyph outlines of the text whose runs are marked `outlined`
+    clips?: Record<string, ClipPath[]>; // clipId -> clip chain (outermost first), see walkOperators
     fonts?: string[]; // Unique font families
 }
 
+// Link annotation in viewport coordinates (top-left origin, same as the Figma frame).
+// External links carry `url`; internal GoTo/named destinations carry the 0-based `destPage`.
+export interface PageLink {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+    url?: string;
+    destPage?: number;
+}
+
+// Asks the user for a password. `incorrect` is true when retrying after a wrong one.
+// Resolve with null to abort loading.
+export type PasswordRequest = (incorrect: boolean) => Promise<string | null>;
+
+// Thrown by `PDFProcessor.load` when the user dismisses the password prompt.
+export class PasswordCancelledError extends Error {
+    constructor() {
+        super("Password entry cancelled");
+        this.name = 'PasswordCancelledError';
+    }
+}
+
+// Structure element roles worth naming layers after; inline roles (Span, Link, LBody, TD...) defer to their ancestors
+const STRUCT_ROLES = new Set(['H', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'P', 'L', 'LI', 'Table', 'Figure']);
+
+// Whether a text item (upright space) starts on the baseline of a run drawn as outlines (viewport space)
+function isDrawn(item: TextItem, runs: OutlinedRun[], pageHeight: number) {
+    const x = item.x;
+    const y = pageHeight - item.y;
+    return runs.some(({ from, to, size }) => {
+        const dx = to[0] - from[0];
+        const dy = to[1] - from[1];
+        const length = dx * dx + dy * dy;
+        const t = length > 0 ? Math.min(Math.max(((x - from[0]) * dx + (y - from[1]) * dy) / length, 0), 1) : 0;
+        return Math.hypot(x - from[0] - t * dx, y - from[1] - t * dy) <= Math.max(size / 2, 1);
+    });
+}
+
 export class PDFProcessor {
     private pdf: pdfjsLib.PDFDocumentProxy | null = null;
-
-    async load(data: ArrayBuffer) {
+    // Second copy of the document loaded with disableFontFace, the only way PDF.js hands out glyph
+    // paths for embedded fonts. Created on the first page that needs outlines.
+    private outlinePdf: Promise<pdfjsLib.PDFDocumentProxy> | null = null;
+    private password: string | undefined;
+    // Extracted images of the current import by pixel fingerprint. Bytes are kept until a page carries them.
+    private images = new Map<string, { id: string, data?: Uint8Array }>();
+    // Raw content walk for what PDF.js flattens out of colors, set up on the first editable page
+    private colorReader: Promise<PageColorReader> | null = null;
+
+    async load(data: ArrayBuffer, requestPassword?: PasswordRequest) {
         const loadingTask = pdfjsLib.getDocument({ data });
-        this.pdf = await loadingTask.promise;
+
+        // Destroying the task mid-prompt does not settle loadingTask.promise, so race it
+        let cancelLoading: (error: Error) => void = () => { };
+        const cancelled = new Promise<never>((_, reject) => { cancelLoading = reject; });
+
+        // Encrypted documents: PDF.js calls back until the password is accepted
+        loadingTask.onPassword = async (updatePassword: (password: string) => void, reason: number) => {
+            const password = requestPassword
+                ? await requestPassword(reason === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD)
+                : null;
+
+            if (password === null) {
+                cancelLoading(new PasswordCancelledError());
+                return;
+            }
+            this.password = password;
+            updatePassword(password);
+        };
+
+        try {
+            this.pdf = await Promise.race([loadingTask.promise, cancelled]);
+        } catch (error) {
+            loadingTask.destroy(); // Frees the worker of a document that never opened
+            throw error;
+        }
         return this.pdf.numPages;
     }
 
-    async getPageData(pageIndex: number): Promise<PageData> {
+    // Human readable list of owner-permission restrictions (empty when unrestricted)
+    async getRestrictions(): Promise<string[]> {
+        if (!this.pdf) throw new Error("PDF not loaded");
+
+        const permissions = await this.pdf.getPermissions();
+        if (!permissions) return [];
+
+        const { PermissionFlag } = pdfjsLib;
+        const restrictions: string[] = [];
+        if (!permissions.includes(PermissionFlag.COPY)) restrictions.push("Copying text and graphics is not allowed");
+        if (!permissions.includes(PermissionFlag.MODIFY_CONTENTS)) restrictions.push("Modifying the document is not allowed");
+        if (!permissions.includes(PermissionFlag.PRINT)) restrictions.push("Printing is not allowed");
+        return restrictions;
+    }
+
+    // PostScript names of the fonts used on the given pages, for the pre-import font check.
+    // Font objects only reach commonObjs through an operator list, which PDF.js then reuses for the import.
+    async getDocumentFonts(pages: number[]): Promise<string[]> {
+        if (!this.pdf) throw new Error("PDF not loaded");
+
+        const names = new Set<string>();
+        for (const pageIndex of pages) {
+            const page = await this.pdf.getPage(pageIndex + 1);
+            const ops = await page.getOperatorList();
+            for (let i = 0; i < ops.fnArray.length; i++) {
+                if (ops.fnArray[i] !== pdfjsLib.OPS.setFont) continue;
+                const loadedName = ops.argsArray[i][0];
+                // @ts-ignore - commonObjs access
+                const font = page.commonObjs.has(loadedName) ? page.commonObjs.get(loadedName) : null;
+                // Type3 fonts are drawn from glyph procedures and have nothing to map
+                if (font?.name && !font.isType3Font) names.add(font.name);
+            }
+        }
+        return [...names];
+    }
+
+    // Starts a new import: images are deduplicated within one import only, as the controller keeps them per import
+    beginImport() {
+        this.images.clear();
+        this.colorReader = null;
+    }
+
+    // Ends the page extraction of an import: the color reader holds a copy of the whole file
+    endImport() {
+        this.colorReader = null;
+    }
+
+    async destroy() {
+        this.colorReader = null;
+        if (this.outlinePdf) {
+            const outlinePdf = this.outlinePdf;
+            this.outlinePdf = null;
+            await outlinePdf.then(pdf => pdf.destroy()).catch(() => { });
+        }
+        if (this.pdf) {
+            await this.pdf.destroy();
+            this.pdf = null;
+        }
+    }
+
+    // Low resolution preview for the page picker (PNG data URL)
+    async renderThumbnail(pageIndex: number, scale = 0.25): Promise<string> {
+        if (!this.pdf) throw new Error("PDF not loaded");
+
+        const page = await this.pdf.getPage(pageIndex + 1);
+        const viewport = page.getViewport({ scale });
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error("Canvas 2D context unavailable");
+
+        await page.render({ canvasContext: context, viewport }).promise;
+        page.cleanup();
+        return canvas.toDataURL('image/png');
+    }
+
+    async getPageData(
+        pageIndex: number,
+        settings: ImportSettings = DEFAULT_IMPORT_SETTINGS,
+        onPhase?: (phase: PagePhase) => void
+    ): Promise<PageData> {
         if (!this.pdf) throw new Error("PDF not loaded");
 
         // Monkey-patch console.warn to silence specific PDF.js "Unimplemented" warnings
@@ -54,597 +291,733 @@ export class PDFProcessor {
         try {
             // Pages are 1-indexed in PDF.js
             const page = await this.pdf.getPage(pageIndex + 1);
-            const viewport = page.getViewport({ scale: 1.0 });
-
-            // 1. Extract Text
-            // disableCombineTextItems: true -> Extracts every glyph/kerning-pair separately. 
-            // This is necessary for "Actual glyph positions".
-            const textContent = await page.getTextContent({ disableCombineTextItems: true } as any);
-
-            // Use RenderTextLayer to extract correct styles (Color, Bold, Italic) from CSS
-            const styleMap = new Map<number, {
-                color: string,
-                opacity: number,
-                weight: string | number,
-                style: string,
-                family: string,
-                fontSize: number,
-                lineHeight: number,
-                letterSpacing: number,
-                wordSpacing: number,
-                stroke?: { color: string, width: number, opacity: number }
-            }>();
-
-            const uniqueFonts = new Set<string>();
+            // Rotation, CropBox origin and UserUnit are all resolved here; every pass below works
+            // in the geometry's viewport or upright space
+            const geometry = getPageGeometry(page);
+            const { viewport } = geometry;
+            const { mode } = settings;
+
+            const pageData: PageData = {
+                width: geometry.width,
+                height: geometry.height,
+                mode,
+                items: []
+            };
 
-            try {
-                const container = document.createElement('div');
-                container.style.display = 'none'; // hidden but in DOM
-                document.body.appendChild(container);
-
-                // Check availability of renderTextLayer
-                const renderTextLayer = (pdfjsLib as any).renderTextLayer;
-                if (renderTextLayer) {
-                    const renderTask = renderTextLayer({
-                        textContentSource: textContent,
-                        container,
-                        viewport,
-                        textDivs: []
+            // 1. Extract Text (skipped for image-only imports). Grouped into paragraphs once tables are known.
+            let textItems: TextItem[] = [];
+            if (mode !== 'image') {
+                onPhase?.('text');
+                const unavailable = new Set(settings.outlineMissingFonts ? settings.unavailableFonts || [] : []);
+                const isOutlined = (font: any) => !!font && (font.isType3Font || unavailable.has(font.name));
+                const { items, fonts } = await this.extractText(page, geometry, isOutlined);
+                textItems = items;
+                pageData.fonts = fonts;
+
+                // 1b. Fonts Figma lacks and Type3 fonts become glyph outlines over a hidden text layer.
+                // Hybrid pages already rasterize Type3 glyphs (they are not drawn with fillText).
+                if (textItems.some(item => item.outlined)) {
+                    onPhase?.('outlines');
+                    // @ts-ignore - commonObjs access
+                    const fontOf = (item: TextItem) => page.commonObjs.has(item.fontName) ? page.commonObjs.get(item.fontName) : null;
+                    const rasterized = (font: any) => mode === 'hybrid' && !!font?.isType3Font;
+                    const outlines = await this.extractTextOutlines(pageIndex, geometry, settings, font => isOutlined(font) && !rasterized(font));
+                    pageData.textOutlines = outlines?.paths;
+                    if (outlines) pageData.clips = outlines.clips;
+                    // The text layer stays hidden only where glyphs were drawn instead: invisible text and
+                    // glyphs without outlines (or a failed outline pass) keep the text visible
+                    textItems.forEach(item => {
+                        if (item.outlined && !rasterized(fontOf(item))) {
+                            item.outlined = (outlines && isDrawn(item, outlines.runs, geometry.height)) || undefined;
+                        }
                     });
-                    await renderTask.promise;
+                }
+            }
 
-                    const spans = Array.from(container.querySelectorAll('span'));
-                    spans.forEach((span, index) => {
-                        const cs = window.getComputedStyle(span);
+            // 2. Render Page to Image
+            // Image mode: the whole page including text. Hybrid: background without text, editable text on top.
+            if (mode === 'image' || mode === 'hybrid') {
+                onPhase?.('raster');
+                pageData.image = await this.renderPageImage(page, geometry.scale * settings.dpi / 72, mode === 'hybrid');
+            }
 
-                        // FontSize
-                        const fontSizePx = parseFloat(cs.fontSize) || 0;
+            // 3. Operator passes (SVG, images, native vectors) only matter for fully editable imports
+            if (mode === 'editable') {
+                const ops = await page.getOperatorList();
 
-                        // LineHeight
-                        let lineHeightPx = fontSizePx * 1.2; // default normal
-                        if (cs.lineHeight && cs.lineHeight !== 'normal') {
-                            lineHeightPx = parseFloat(cs.lineHeight);
-                        }
+                // Every pass walks the operators with the same state (see operator-walker.ts)
+                const paints = tracePaints(ops, await this.readPageColors(page));
+                const walk: WalkOptions = { geometry, paints, cmykConversion: settings.cmykConversion };
 
-                        // LetterSpacing
-                        let letterSpacingPx = 0;
-                        if (cs.letterSpacing && cs.letterSpacing !== 'normal') {
-                            letterSpacingPx = parseFloat(cs.letterSpacing);
-                        }
+                // Clip chains by id, as the image and vector passes refer to them
+                try {
+                    pageData.clips = { ...pageData.clips, ...walkOperators(ops, walk, {}, () => { }) };
+                } catch (e) {
+                    console.warn("Clip extraction failed", e);
+                }
 
-                        // WordSpacing
-                        let wordSpacingPx = 0;
-                        if (cs.wordSpacing && cs.wordSpacing !== 'normal') {
-                            wordSpacingPx = parseFloat(cs.wordSpacing);
-                        }
+                // 3a. Extract Native Vectors (Path Operators)
+                onPhase?.('vectors');
+                const nativePaths = extractNativePaths(ops, page.objs, walk);
 
-                        const family = cs.fontFamily ? cs.fontFamily.replace(/['"]/g, '') : 'Inter';
-                        uniqueFonts.add(family);
+                // 3b. Extract Vector (SVG) - Best Effort, only when the native walk failed
+                if (nativePaths) {
+                    pageData.nativePaths = nativePaths;
+                } else {
+                    onPhase?.('svg');
+                    Object.assign(pageData, await this.extractSvg(page, viewport, ops));
+                }
 
-                        // Stroke Extraction (Webkit)
-                        let stroke: { color: string, width: number, opacity: number } | undefined;
-                        const webkitStrokeWidth = cs.webkitTextStrokeWidth;
-                        if (webkitStrokeWidth && parseFloat(webkitStrokeWidth) > 0) {
-                            const width = parseFloat(webkitStrokeWidth);
-                            const strokeColor = cs.webkitTextStrokeColor || 'rgb(0,0,0)';
-                            stroke = { color: strokeColor, width, opacity: 1 };
-                        }
+                // 3c. Extract Individual Images (Smart Extraction)
+                onPhase?.('images');
+                pageData.extractedImages = await this.extractImages(page, ops, walk, settings);
 
-                        // Opacity
-                        const opacity = parseFloat(cs.opacity) || 1;
-
-                        styleMap.set(index, {
-                            color: cs.color || 'rgb(0,0,0)',
-                            opacity,
-                            weight: cs.fontWeight || '400',
-                            style: cs.fontStyle || 'normal',
-                            family: family,
-                            fontSize: fontSizePx,
-                            lineHeight: lineHeightPx,
-                            letterSpacing: letterSpacingPx,
-                            wordSpacing: wordSpacingPx,
-                            stroke
-                        });
-                    });
+                // 3d. Tables: ruling lines from the native paths plus text alignment
+                onPhase?.('tables');
+                const detected = detectTables(textItems, pageData.nativePaths || [], viewport.height);
+                pageData.tables = detected.tables;
+                textItems = detected.items;
+                if (pageData.nativePaths) pageData.nativePaths = detected.paths;
+            }
+
+            // Segment the remaining text into blocks (columns, sidebars, headers/footers), then group paragraphs in reading order
+            pageData.items = analyzeLayout(textItems, viewport.width, viewport.height);
+
+            // 4. Extract Hyperlinks
+            onPhase?.('links');
+            pageData.links = await this.extractLinks(page, viewport);
+
+            // Image bytes travel with the first page that uses them (once nothing can fail any more);
+            // later pages only reference the id
+            if (pageData.extractedImages?.length) {
+                const used = new Set(pageData.extractedImages.map(image => image.imageId));
+                pageData.images = {};
+                for (const image of this.images.values()) {
+                    if (!image.data || !used.has(image.id)) continue;
+                    pageData.images[image.id] = image.data;
+                    image.data = undefined;
                 }
-                document.body.removeChild(container);
-            } catch (e) {
-                console.warn("Text Layer style extraction failed", e);
             }
 
-            const rawItems: TextItem[] = [];
-            const items = textContent.items as any[];
+            return pageData;
+        } finally {
+            console.warn = originalWarn;
+        }
+    }
 
-            // Pre-resolve fonts from commonObjs to get real PostScript names
-            // item.fontName is just a reference ID like "g_d0_f1"
-            // page.commonObjs.get("g_d0_f1") returns the Font object.
-            const fontObjects = new Map<string, any>();
-            try {
-                // In PDF.js, commonObjs is a helper. We need to ensure they are resolved.
-                // The textContent call usually ensures fonts are loaded, but commonObjs might be populated async or synced.
-                // We can iterate unique font names from items and try to get them.
-                for (const it of items) {
-                    if (it.fontName && !fontObjects.has(it.fontName)) {
-                        // @ts-ignore - commonObjs access
-                        if (page.commonObjs && page.commonObjs.has(it.fontName)) {
-                            // @ts-ignore
-                            const fontObj = page.commonObjs.get(it.fontName);
-                            fontObjects.set(it.fontName, fontObj);
-                        }
+    private async extractText(
+        page: pdfjsLib.PDFPageProxy,
+        geometry: PageGeometry,
+        isOutlined: (font: any) => boolean
+    ): Promise<{ items: TextItem[], fonts: string[] }> {
+        const { viewport } = geometry;
+        // disableCombineTextItems: true -> Extracts every glyph/kerning-pair separately. 
+        // This is necessary for "Actual glyph positions".
+        const textContent = await page.getTextContent({ disableCombineTextItems: true, includeMarkedContent: true } as any);
+
+        // Marked content markers are interleaved with the text items. Strip them (so the text layer
+        // spans below still line up with item indices) and remember the enclosing MCID per item.
+        const structRoles = await this.extractStructRoles(page);
+        const markedContent: Array<string | null> = [];
+        const textOnly: any[] = [];
+        const contentStack: Array<string | null> = [];
+        for (const item of textContent.items as any[]) {
+            if (item.type === 'beginMarkedContent' || item.type === 'beginMarkedContentProps') {
+                // Untagged sections (e.g. /Artifact) have no id and hide any outer MCID
+                contentStack.push(item.id ?? null);
+            } else if (item.type === 'endMarkedContent') {
+                contentStack.pop();
+            } else {
+                textOnly.push(item);
+                markedContent.push(contentStack.length > 0 ? contentStack[contentStack.length - 1] : null);
+            }
+        }
+        textContent.items = textOnly;
+
+        // Use RenderTextLayer to extract correct styles (Color, Bold, Italic) from CSS
+        const styleMap = new Map<number, {
+            color: string,
+            opacity: number,
+            weight: string | number,
+            style: string,
+            family: string,
+            fontSize: number,
+            lineHeight: number,
+            letterSpacing: number,
+            wordSpacing: number,
+            stroke?: { color: string, width: number, opacity: number }
+        }>();
+
+        const uniqueFonts = new Set<string>();
+
+        try {
+            const container = document.createElement('div');
+            container.style.display = 'none'; // hidden but in DOM
+            document.body.appendChild(container);
+
+            // Check availability of renderTextLayer
+            const renderTextLayer = (pdfjsLib as any).renderTextLayer;
+            if (renderTextLayer) {
+                const renderTask = renderTextLayer({
+                    textContentSource: textContent,
+                    container,
+                    viewport,
+                    textDivs: []
+                });
+                await renderTask.promise;
+
+                const spans = Array.from(container.querySelectorAll('span'));
+                spans.forEach((span, index) => {
+                    const cs = window.getComputedStyle(span);
+
+                    // FontSize
+                    const fontSizePx = parseFloat(cs.fontSize) || 0;
+
+                    // LineHeight
+                    let lineHeightPx = fontSizePx * 1.2; // default normal
+                    if (cs.lineHeight && cs.lineHeight !== 'normal') {
+                        lineHeightPx = parseFloat(cs.lineHeight);
                     }
-                }
-            } catch (e) {
-                console.warn("Font Object extraction failed", e);
+
+                    // LetterSpacing
+                    let letterSpacingPx = 0;
+                    if (cs.letterSpacing && cs.letterSpacing !== 'normal') {
+                        letterSpacingPx = parseFloat(cs.letterSpacing);
+                    }
+
+                    // WordSpacing
+                    let wordSpacingPx = 0;
+                    if (cs.wordSpacing && cs.wordSpacing !== 'normal') {
+                        wordSpacingPx = parseFloat(cs.wordSpacing);
+                    }
+
+                    const family = cs.fontFamily ? cs.fontFamily.replace(/['"]/g, '') : 'Inter';
+                    uniqueFonts.add(family);
+
+                    // Stroke Extraction (Webkit)
+                    let stroke: { color: string, width: number, opacity: number } | undefined;
+                    const webkitStrokeWidth = cs.webkitTextStrokeWidth;
+                    if (webkitStrokeWidth && parseFloat(webkitStrokeWidth) > 0) {
+                        const width = parseFloat(webkitStrokeWidth);
+                        const strokeColor = cs.webkitTextStrokeColor || 'rgb(0,0,0)';
+                        stroke = { color: strokeColor, width, opacity: 1 };
+                    }
+
+                    // Opacity
+                    const opacity = parseFloat(cs.opacity) || 1;
+
+                    styleMap.set(index, {
+                        color: cs.color || 'rgb(0,0,0)',
+                        opacity,
+                        weight: cs.fontWeight || '400',
+                        style: cs.fontStyle || 'normal',
+                        family: family,
+                        fontSize: fontSizePx,
+                        lineHeight: lineHeightPx,
+                        letterSpacing: letterSpacingPx,
+                        wordSpacing: wordSpacingPx,
+                        stroke
+                    });
+                });
             }
+            document.body.removeChild(container);
+        } catch (e) {
+            console.warn("Text Layer style extraction failed", e);
+        }
 
-            for (let i = 0; i < items.length; i++) {
-                const item = items[i];
-                const domStyles = styleMap.get(i);
-                const loadedFont = fontObjects.get(item.fontName);
-
-                // Fallbacks
-                let weight: string | number = 400;
-                let fontStyle = 'normal';
-                let color = domStyles?.color || 'rgb(0, 0, 0)';
-                let opacity = domStyles?.opacity ?? 1;
-                let fontFamily = 'Inter';
-                let extractedFontSize = 0;
-                let extractedLineHeight = 0;
-                let extractedLetterSpacing = 0;
-                let extractedWordSpacing = 0;
-                let stroke = domStyles?.stroke;
-
-                if (domStyles) {
-                    weight = domStyles.weight;
-                    fontStyle = domStyles.style;
-                    fontFamily = domStyles.family;
-                    extractedFontSize = domStyles.fontSize;
-                    extractedLineHeight = domStyles.lineHeight;
-                    extractedLetterSpacing = domStyles.letterSpacing;
-                    extractedWordSpacing = domStyles.wordSpacing;
-                }
+        const rawItems: TextItem[] = [];
+        const items = textContent.items as any[];
 
-                // Calculate geometric font size as backup or verification
-                const tx = item.transform as number[]; // [a, b, c, d, tx, ty]
-                const geoFontSize = Math.sqrt(tx[2] * tx[2] + tx[3] * tx[3]);
-
-                // Prefer the computed font size if it's close to geometry, otherwise geometry might be more accurate for pure scale.
-                // Font Family Cleaning & Generic Mapping
-                if (fontFamily) {
-                    // Remove quotes
-                    fontFamily = fontFamily.replace(/['"]/g, '');
-
-                    // Map Generics to Figma-safe defaults
-                    const lower = fontFamily.toLowerCase();
-                    if (lower.includes('sans-serif') || lower === 'sans-serif') fontFamily = 'Inter';
-                    else if (lower.includes('serif')) fontFamily = 'Times New Roman'; // Figma usually has this or similar
-                    else if (lower.includes('monospace')) fontFamily = 'Roboto Mono';
+        // Pre-resolve fonts from commonObjs to get real PostScript names
+        // item.fontName is just a reference ID like "g_d0_f1"
+        // page.commonObjs.get("g_d0_f1") returns the Font object.
+        const fontObjects = new Map<string, any>();
+        try {
+            // In PDF.js, commonObjs is a helper. We need to ensure they are resolved.
+            // The textContent call usually ensures fonts are loaded, but commonObjs might be populated async or synced.
+            // We can iterate unique font names from items and try to get them.
+            for (const it of items) {
+                if (it.fontName && !fontObjects.has(it.fontName)) {
+                    // @ts-ignore - commonObjs access
+                    if (page.commonObjs && page.commonObjs.has(it.fontName)) {
+                        // @ts-ignore
+                        const fontObj = page.commonObjs.get(it.fontName);
+                        fontObjects.set(it.fontName, fontObj);
+                    }
                 }
+            }
+        } catch (e) {
+            console.warn("Font Object extraction failed", e);
+        }
 
-                let finalFontSize = extractedFontSize > 0 ? extractedFontSize : geoFontSize;
-                if (finalFontSize === 0) finalFontSize = 12; // safety fallback
-
-                rawItems.push({
-                    type: 'text',
-                    str: item.str,
-                    x: tx[4],
-                    y: tx[5],
-                    fontSize: finalFontSize,
-                    fontFamily: fontFamily,
-                    fontName: item.fontName, // Internal ID (e.g. "g_d0_f1")
-                    rawFontName: loadedFont?.name || '', // PostScript Name (e.g. "Arial-BoldMT")
-                    fontWeight: weight,
-                    fontStyle: fontStyle,
-                    color: color,
-                    opacity: opacity,
-                    stroke: stroke,
-                    lineHeight: extractedLineHeight,
-                    letterSpacing: extractedLetterSpacing,
-                    wordSpacing: extractedWordSpacing,
-                    horizontalScaling: 100, // Default, hard to extract from CSS alone
-                    textRise: 0, // Default
-                    textRenderMode: 0, // Default Fill
-                    matrix: tx,
-                    isRTL: item.dir === 'rtl',
-                    width: item.width,
-                    height: item.height,
-                    transform: tx
-                });
+        for (let i = 0; i < items.length; i++) {
+            const item = items[i];
+            const domStyles = styleMap.get(i);
+            const loadedFont = fontObjects.get(item.fontName);
+
+            // Fallbacks
+            let weight: string | number = 400;
+            let fontStyle = 'normal';
+            let color = domStyles?.color || 'rgb(0, 0, 0)';
+            let opacity = domStyles?.opacity ?? 1;
+            let fontFamily = 'Inter';
+            let extractedFontSize = 0;
+            let extractedLineHeight = 0;
+            let extractedLetterSpacing = 0;
+            let extractedWordSpacing = 0;
+            let stroke = domStyles?.stroke;
+
+            if (domStyles) {
+                weight = domStyles.weight;
+                fontStyle = domStyles.style;
+                fontFamily = domStyles.family;
+                extractedFontSize = domStyles.fontSize;
+                extractedLineHeight = domStyles.lineHeight;
+                extractedLetterSpacing = domStyles.letterSpacing;
+                extractedWordSpacing = domStyles.wordSpacing;
             }
 
-            // 2. Group Paragraphs
-            const paragraphs = groupTextItems(rawItems);
+            // Calculate geometric font size as backup or verification
+            const tx = multiplyTransform(item.transform as number[], geometry.toUpright); // [a, b, c, d, tx, ty]
+            const geoFontSize = Math.sqrt(tx[2] * tx[2] + tx[3] * tx[3]);
+
+            // Prefer the computed font size if it's close to geometry, otherwise geometry might be more accurate for pure scale.
+            // Font Family Cleaning & Generic Mapping
+            if (fontFamily) {
+                // Remove quotes
+                fontFamily = fontFamily.replace(/['"]/g, '');
+
+                // Map Generics to Figma-safe defaults
+                const lower = fontFamily.toLowerCase();
+                if (lower.includes('sans-serif') || lower === 'sans-serif') fontFamily = 'Inter';
+                else if (lower.includes('serif')) fontFamily = 'Times New Roman'; // Figma usually has this or similar
+                else if (lower.includes('monospace')) fontFamily = 'Roboto Mono';
+            }
 
-            // 3. Render Page to Image (Raster Fallback)
-            // This ensures complex vectors and images are visible even if SVG fails.
-            let imageBytes: Uint8Array | undefined;
-            try {
-                const canvas = document.createElement('canvas');
-                const scale = 2.0; // Retina quality
-                const viewportHighRes = page.getViewport({ scale });
-                canvas.width = viewportHighRes.width;
-                canvas.height = viewportHighRes.height;
-
-                const context = canvas.getContext('2d');
-                if (context) {
-                    // Direct override instead of Proxy to be safer with PDF.js internal checks
-                    const originalFillText = context.fillText;
-                    const originalStrokeText = context.strokeText;
-
-                    // No-op text rendering
+            let finalFontSize = extractedFontSize > 0 ? extractedFontSize : geoFontSize;
+            if (finalFontSize === 0) finalFontSize = 12; // safety fallback
+
+            // Marked content ids look like "p12R_mc3" (page object + MCID)
+            const contentId = markedContent[i];
+            const mcidMatch = contentId ? /_mc(\d+)$/.exec(contentId) : null;
+
+            rawItems.push({
+                type: 'text',
+                str: item.str,
+                x: tx[4],
+                y: tx[5],
+                fontSize: finalFontSize,
+                fontFamily: fontFamily,
+                fontName: item.fontName, // Internal ID (e.g. "g_d0_f1")
+                rawFontName: loadedFont?.name || '', // PostScript Name (e.g. "Arial-BoldMT")
+                fontWeight: weight,
+                fontStyle: fontStyle,
+                color: color,
+                opacity: opacity,
+                mcid: mcidMatch ? Number(mcidMatch[1]) : undefined,
+                structRole: contentId ? structRoles.get(contentId) : undefined,
+                stroke: stroke,
+                lineHeight: extractedLineHeight,
+                letterSpacing: extractedLetterSpacing,
+                wordSpacing: extractedWordSpacing,
+                horizontalScaling: Math.round(100 * Math.hypot(tx[0], tx[1]) / (geoFontSize || 1)), // Tz, as baked into the text matrix
+                textRise: 0, // Default
+                textRenderMode: 0, // Default Fill
+                matrix: tx,
+                isRTL: item.dir === 'rtl',
+                outlined: isOutlined(loadedFont) || undefined,
+                width: item.width * geometry.scale,
+                height: item.height * geometry.scale,
+                transform: tx
+            });
+        }
+
+        return {
+            items: rawItems,
+            fonts: Array.from(uniqueFonts)
+        };
+    }
+
+    // Where the page's colors came from (spot inks, CMYK components). Null when the raw file or the
+    // page's content cannot be read.
+    private async readPageColors(page: pdfjsLib.PDFPageProxy) {
+        if (!this.colorReader) {
+            this.colorReader = this.pdf!.getData().then(createColorReader);
+        }
+        try {
+            return page.ref ? await (await this.colorReader)(page.ref.num) : null;
+        } catch (e) {
+            console.warn("Color source scan failed", e);
+            return null;
+        }
+    }
+
+    // Glyph outlines for the text in fonts selected by `shouldOutline`, in viewport coordinates, with the
+    // baselines they cover and their clip chains. Undefined when the outline copy of the document cannot
+    // be loaded or walked.
+    private async extractTextOutlines(pageIndex: number, geometry: PageGeometry, settings: ImportSettings, shouldOutline: (font: any) => boolean) {
+        if (!this.pdf) return undefined;
+        try {
+            if (!this.outlinePdf) {
+                const password = this.password;
+                this.outlinePdf = this.pdf.getData().then(data =>
+                    pdfjsLib.getDocument({ data, password, disableFontFace: true }).promise
+                );
+            }
+            const page = await (await this.outlinePdf).getPage(pageIndex + 1);
+            const ops = await page.getOperatorList();
+
+            // Font objects resolve asynchronously after the operator list; glyph paths arrive before it
+            const fontNames = new Set<string>();
+            ops.fnArray.forEach((fn, i) => {
+                if (fn === pdfjsLib.OPS.setFont) fontNames.add(ops.argsArray[i][0]);
+            });
+            await Promise.all([...fontNames].map(name => new Promise(resolve => {
+                // @ts-ignore - commonObjs access
+                page.commonObjs.get(name, resolve);
+                setTimeout(resolve, 5000); // A font that never resolves is skipped, not waited on forever
+            })));
+
+            // The copy has the same boxes, rotation and UserUnit, so the main geometry applies. Its clip ids
+            // are kept apart from those of the main operator list.
+            const paints = tracePaints(ops, await this.readPageColors(page));
+            const walk: WalkOptions = { geometry, paints, cmykConversion: settings.cmykConversion, clipPrefix: 'textClip' };
+            // @ts-ignore - commonObjs access
+            return outlineText(ops, page.commonObjs, walk, shouldOutline);
+        } catch (e) {
+            console.warn("Text outline extraction failed", e);
+            return undefined;
+        }
+    }
+
+    // Maps marked content ids to the innermost meaningful structure role (H1-H6, P, L/LI, Table, Figure).
+    // Empty for untagged PDFs. Custom roles arrive already resolved through the RoleMap.
+    private async extractStructRoles(page: pdfjsLib.PDFPageProxy) {
+        const roles = new Map<string, string>();
+        try {
+            const tree = await page.getStructTree();
+            const visit = (node: any, role?: string) => {
+                if (node.type === 'content') {
+                    if (node.id && role) roles.set(node.id, role);
+                    return;
+                }
+                const ownRole = STRUCT_ROLES.has(node.role) ? node.role : role;
+                for (const child of node.children || []) visit(child, ownRole);
+            };
+            if (tree) visit(tree);
+        } catch (e) {
+            console.warn("Structure tree extraction failed", e);
+        }
+        return roles;
+    }
+
+    // Rasterize the page at the given scale (1.0 = 72 DPI) and return PNG bytes
+    private async renderPageImage(page: pdfjsLib.PDFPageProxy, scale: number, hideText: boolean): Promise<Uint8Array | undefined> {
+        let imageBytes: Uint8Array | undefined;
+        try {
+            const canvas = document.createElement('canvas');
+            const viewportHighRes = page.getViewport({ scale });
+            canvas.width = viewportHighRes.width;
+            canvas.height = viewportHighRes.height;
+
+            const context = canvas.getContext('2d');
+            if (context) {
+                // Direct override instead of Proxy to be safer with PDF.js internal checks
+                const originalFillText = context.fillText;
+                const originalStrokeText = context.strokeText;
+
+                // No-op text rendering (editable text is layered on top instead)
+                if (hideText) {
                     context.fillText = () => { };
                     context.strokeText = () => { };
+                }
 
-                    try {
-                        await page.render({
-                            canvasContext: context,
-                            viewport: viewportHighRes
-                        }).promise;
-                    } finally {
-                        // Restore just in case (though we discard this context)
-                        context.fillText = originalFillText;
-                        context.strokeText = originalStrokeText;
-                    }
+                try {
+                    await page.render({
+                        canvasContext: context,
+                        viewport: viewportHighRes
+                    }).promise;
+                } finally {
+                    // Restore just in case (though we discard this context)
+                    context.fillText = originalFillText;
+                    context.strokeText = originalStrokeText;
+                }
 
-                    // Convert to blob/buffer
-                    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
-                    if (blob) {
-                        const buffer = await blob.arrayBuffer();
-                        imageBytes = new Uint8Array(buffer);
-                    }
+                // Convert to blob/buffer
+                const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+                if (blob) {
+                    const buffer = await blob.arrayBuffer();
+                    imageBytes = new Uint8Array(buffer);
                 }
-            } catch (e) {
-                console.error("Image Rendering failed", e);
             }
+        } catch (e) {
+            console.error("Image Rendering failed", e);
+        }
 
-            // 4. Extract Vector (SVG) - Best Effort
-            let svgString = '';
-            let svgSanitizedString = '';
-            let svgUltraSafeString = '';
-            let svgElement: SVGElement | null = null; // Lifted scope
+        return imageBytes;
+    }
 
+    private async extractSvg(page: pdfjsLib.PDFPageProxy, viewport: PageViewport, ops: OperatorList) {
+        let svgString = '';
+        let svgSanitizedString = '';
+        let svgUltraSafeString = '';
+        let svgElement: SVGElement | null = null; // Lifted scope
+
+        try {
             try {
+                const svgGraphics = new pdfjsLib.SVGGraphics(page.commonObjs, page.objs);
+                svgElement = (await svgGraphics.getSVG(ops, viewport)) as unknown as SVGElement;
+                svgString = svgElement.outerHTML;
+            } catch (e) {
+                console.warn("SVG Extraction (High Fidelity) crashed inside PDF.js - skipping vector layer.", e);
+                // Ensure we don't pass null/garbage
+                svgString = '';
+                svgElement = null;
+            }
+
+            // Pass B: Sanitized SVG (Clone and Strip)
+            if (svgElement) {
                 try {
-                    const operatorList = await page.getOperatorList();
-                    const svgGraphics = new pdfjsLib.SVGGraphics(page.commonObjs, page.objs);
-                    svgElement = (await svgGraphics.getSVG(operatorList, viewport)) as unknown as SVGElement;
-                    svgString = svgElement.outerHTML;
+                    const clone = svgElement.cloneNode(true) as SVGElement;
+
+                    // Preserve gradients, masks, clips, patterns, images.
+                    // Only remove truly problematic or unsupported tags for Figma import (like foreignObject).
+                    // We remove 'style' because inline CSS blocks often cause parsing errors in Figma or override attributes unexpectedly.
+                    const badTags = ['foreignObject', 'object', 'embed', 'applet', 'script', 'style'];
+
+                    badTags.forEach(tag => {
+                        const elements = clone.querySelectorAll(tag);
+                        elements.forEach(el => el.remove());
+                    });
+
+                    // Remove Text elements to avoid duplication with "Editable Text" layer
+                    const textTags = ['text', 'tspan', 'textPath'];
+                    textTags.forEach(tag => {
+                        const elements = clone.querySelectorAll(tag);
+                        elements.forEach(el => el.remove());
+                    });
+
+                    // Remove problematic attributes
+                    // Remove problematic attributes?
+                    // Figma handles most of these now, or ignores them.
+                    const allElements = clone.querySelectorAll('*');
+                    allElements.forEach(el => {
+                        // el.removeAttribute('filter'); // Keep filters
+                        // el.removeAttribute('mask'); // Keep masks for complex graphics
+                        // el.removeAttribute('clip-path'); // Keep clips
+                        el.removeAttribute('mix-blend-mode'); // Figma doesn't always import this from SVG well, but let's try leaving it or removing if buggy.
+                        // Removing mix-blend-mode is safer for now as it often essentially hides content in Figma import.
+                    });
+
+                    svgSanitizedString = clone.outerHTML;
                 } catch (e) {
-                    console.warn("SVG Extraction (High Fidelity) crashed inside PDF.js - skipping vector layer.", e);
-                    // Ensure we don't pass null/garbage
-                    svgString = '';
-                    svgElement = null;
+                    console.warn("SVG Sanitization failed", e);
                 }
+            }
 
-                // Pass B: Sanitized SVG (Clone and Strip)
-                if (svgElement) {
-                    try {
-                        const clone = svgElement.cloneNode(true) as SVGElement;
-
-                        // Preserve gradients, masks, clips, patterns, images.
-                        // Only remove truly problematic or unsupported tags for Figma import (like foreignObject).
-                        // We remove 'style' because inline CSS blocks often cause parsing errors in Figma or override attributes unexpectedly.
-                        const badTags = ['foreignObject', 'object', 'embed', 'applet', 'script', 'style'];
-
-                        badTags.forEach(tag => {
-                            const elements = clone.querySelectorAll(tag);
-                            elements.forEach(el => el.remove());
-                        });
-
-                        // Remove Text elements to avoid duplication with "Editable Text" layer
-                        const textTags = ['text', 'tspan', 'textPath'];
-                        textTags.forEach(tag => {
-                            const elements = clone.querySelectorAll(tag);
-                            elements.forEach(el => el.remove());
-                        });
-
-                        // Remove problematic attributes
-                        // Remove problematic attributes?
-                        // Figma handles most of these now, or ignores them.
-                        const allElements = clone.querySelectorAll('*');
-                        allElements.forEach(el => {
-                            // el.removeAttribute('filter'); // Keep filters
-                            // el.removeAttribute('mask'); // Keep masks for complex graphics
-                            // el.removeAttribute('clip-path'); // Keep clips
-                            el.removeAttribute('mix-blend-mode'); // Figma doesn't always import this from SVG well, but let's try leaving it or removing if buggy.
-                            // Removing mix-blend-mode is safer for now as it often essentially hides content in Figma import.
-                        });
-
-                        svgSanitizedString = clone.outerHTML;
-                    } catch (e) {
-                        console.warn("SVG Sanitization failed", e);
-                    }
-                }
+            // Pass C: Ultra-Safe SVG (No Masks, No Clips, No Patterns)
+            if (svgElement) {
+                try {
+                    const clone = svgElement.cloneNode(true) as SVGElement;
+                    const badTags = ['foreignObject', 'object', 'embed', 'applet', 'script', 'style',
+                        'mask', 'clipPath', 'filter', 'pattern', 'linearGradient', 'radialGradient', 'defs'];
 
-                // Pass C: Ultra-Safe SVG (No Masks, No Clips, No Patterns)
-                if (svgElement) {
-                    try {
-                        const clone = svgElement.cloneNode(true) as SVGElement;
-                        const badTags = ['foreignObject', 'object', 'embed', 'applet', 'script', 'style',
-                            'mask', 'clipPath', 'filter', 'pattern', 'linearGradient', 'radialGradient', 'defs'];
-
-                        badTags.forEach(tag => {
-                            const elements = clone.querySelectorAll(tag);
-                            elements.forEach(el => el.remove());
-                        });
-
-                        const textTags = ['text', 'tspan', 'textPath'];
-                        textTags.forEach(tag => {
-                            const elements = clone.querySelectorAll(tag);
-                            elements.forEach(el => el.remove());
-                        });
-
-                        const allElements = clone.querySelectorAll('*');
-                        allElements.forEach(el => {
-                            el.removeAttribute('mask');
-                            el.removeAttribute('clip-path');
-                            el.removeAttribute('filter');
-                            el.removeAttribute('fill-opacity'); // Sometimes causes issues
-                            el.removeAttribute('stroke-opacity');
-                            el.removeAttribute('mix-blend-mode');
-                        });
-
-                        svgUltraSafeString = clone.outerHTML;
-                    } catch (e) {
-                        console.warn("Ultra-Safe Sanitization failed", e);
-                    }
-                }
+                    badTags.forEach(tag => {
+                        const elements = clone.querySelectorAll(tag);
+                        elements.forEach(el => el.remove());
+                    });
 
-            } catch (e) {
-                console.warn("SVG Extraction failed, falling back to raster image only.", e);
-            }
+                    const textTags = ['text', 'tspan', 'textPath'];
+                    textTags.forEach(tag => {
+                        const elements = clone.querySelectorAll(tag);
+                        elements.forEach(el => el.remove());
+                    });
 
-            // 5. Extract Individual Images (Smart Extraction)
-            const extractedImages: Array<any> = [];
-            try {
-                const ops = await page.getOperatorList();
-                const fnArray = ops.fnArray;
-                const argsArray = ops.argsArray;
-
-                // transform stack
-                let currentMatrix = [1, 0, 0, 1, 0, 0]; // Identity
-                const transformStack: number[][] = [];
-
-                // Helper to multiply matrices
-                // m1 * m2
-                const transform = (m1: number[], m2: number[]) => {
-                    return [
-                        m1[0] * m2[0] + m1[1] * m2[2],
-                        m1[0] * m2[1] + m1[1] * m2[3],
-                        m1[2] * m2[0] + m1[3] * m2[2],
-                        m1[2] * m2[1] + m1[3] * m2[3],
-                        m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
-                        m1[4] * m2[1] + m1[5] * m2[3] + m2[5]
-                    ];
-                };
-
-                for (let i = 0; i < fnArray.length; i++) {
-                    const fn = fnArray[i];
-                    const args = argsArray[i];
-
-                    if (fn === pdfjsLib.OPS.save) {
-                        transformStack.push([...currentMatrix]);
-                    }
-                    else if (fn === pdfjsLib.OPS.restore) {
-                        if (transformStack.length > 0) {
-                            currentMatrix = transformStack.pop()!;
-                        }
-                    }
-                    else if (fn === pdfjsLib.OPS.transform) {
-                        // args: [a, b, c, d, e, f]
-                        currentMatrix = transform(args, currentMatrix);
-                    }
-                    else if (fn === pdfjsLib.OPS.paintImageXObject) {
-                        const imgName = args[0];
-                        try {
-                            // retrieve image
-                            let imgObj: any;
-                            if (page.objs.has(imgName)) {
-                                imgObj = page.objs.get(imgName);
-                            } else if (page.commonObjs.has(imgName)) {
-                                imgObj = page.commonObjs.get(imgName);
-                            }
-
-                            if (imgObj && (imgObj.bitmap || imgObj.data)) {
-                                // We have image data. Need to convert to PNG bytes for Figma.
-                                // Use a temporary canvas.
-                                const width = imgObj.width;
-                                const height = imgObj.height;
-
-                                if (width > 0 && height > 0) {
-                                    const canvas = document.createElement('canvas');
-                                    canvas.width = width;
-                                    canvas.height = height;
-                                    const ctx = canvas.getContext('2d');
-                                    if (ctx) {
-                                        // If it's an ImageBitmap (modern pdf.js)
-                                        if (imgObj.bitmap) {
-                                            ctx.drawImage(imgObj.bitmap, 0, 0);
-                                        }
-                                        // If it's raw data (older or different format)
-                                        else if (imgObj.data) {
-                                            // Handle raw data - this is complex (RGB vs RGBA vs CMYK)
-                                            // Simplification: Assume RGBA for now or skip complex raw data
-                                            const imageData = new ImageData(new Uint8ClampedArray(imgObj.data), width, height);
-                                            ctx.putImageData(imageData, 0, 0);
-                                        }
-
-                                        // Convert to blob/bytes
-                                        const blob = await new Promise<Blob | null>(r => canvas.toBlob(r, 'image/png'));
-                                        if (blob) {
-                                            const buffer = await blob.arrayBuffer();
-                                            // Position: The image is painted in the unit square (0,0,1,1) transformed by CTM.
-                                            // We store the CTM and let Controller handle the Figma placement.
-                                            extractedImages.push({
-                                                data: new Uint8Array(buffer),
-                                                transform: [...currentMatrix],
-                                                width: width,
-                                                height: height,
-                                                x: currentMatrix[4], // approximate translation
-                                                y: currentMatrix[5]
-                                            });
-                                        }
-                                    }
-                                }
-                            }
-                        } catch (err) {
-                            console.warn(`Failed to extract image ${imgName}`, err);
-                        }
-                    }
+                    const allElements = clone.querySelectorAll('*');
+                    allElements.forEach(el => {
+                        el.removeAttribute('mask');
+                        el.removeAttribute('clip-path');
+                        el.removeAttribute('filter');
+                        el.removeAttribute('fill-opacity'); // Sometimes causes issues
+                        el.removeAttribute('stroke-opacity');
+                        el.removeAttribute('mix-blend-mode');
+                    });
+
+                    svgUltraSafeString = clone.outerHTML;
+                } catch (e) {
+                    console.warn("Ultra-Safe Sanitization failed", e);
                 }
-            } catch (e) {
-                console.warn("Smart Image Extraction failed", e);
             }
 
-            // 5.5 Extract Native Vectors (Path Operators)
-            const nativePaths: Array<any> = [];
-            try {
-                const ops = await page.getOperatorList();
-                const fnArray = ops.fnArray;
-                const argsArray = ops.argsArray;
-
-                let currentMatrix = [1, 0, 0, 1, 0, 0];
-                const transformStack: number[][] = [];
-
-                let currentPath = "";
-                let fillColor = { r: 0, g: 0, b: 0 };
-                let strokeColor = { r: 0, g: 0, b: 0 };
-                let lineWidth = 1.0;
-                let opacity = 1.0;
-
-                const transform = (m1: number[], m2: number[]) => {
-                    return [
-                        m1[0] * m2[0] + m1[1] * m2[2],
-                        m1[0] * m2[1] + m1[1] * m2[3],
-                        m1[2] * m2[0] + m1[3] * m2[2],
-                        m1[2] * m2[1] + m1[3] * m2[3],
-                        m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
-                        m1[4] * m2[1] + m1[5] * m2[3] + m2[5]
-                    ];
-                };
-
-                for (let i = 0; i < fnArray.length; i++) {
-                    const fn = fnArray[i];
-                    const args = argsArray[i];
-
-                    if (fn === pdfjsLib.OPS.save) {
-                        transformStack.push([...currentMatrix]);
-                    }
-                    else if (fn === pdfjsLib.OPS.restore) {
-                        if (transformStack.length > 0) {
-                            currentMatrix = transformStack.pop()!;
-                        }
-                    }
-                    else if (fn === pdfjsLib.OPS.transform) {
-                        currentMatrix = transform(args, currentMatrix);
-                    }
-                    // Color state
-                    else if (fn === pdfjsLib.OPS.setFillRGBColor) {
-                        fillColor = { r: args[0] / 255, g: args[1] / 255, b: args[2] / 255 };
-                    }
-                    else if (fn === pdfjsLib.OPS.setStrokeRGBColor) {
-                        strokeColor = { r: args[0] / 255, g: args[1] / 255, b: args[2] / 255 };
-                    }
-                    else if (fn === pdfjsLib.OPS.setLineWidth) {
-                        lineWidth = args[0];
-                    }
-                    // Path construction
-                    else if (fn === pdfjsLib.OPS.moveTo) {
-                        currentPath += `M ${args[0]} ${args[1]} `;
-                    }
-                    else if (fn === pdfjsLib.OPS.lineTo) {
-                        currentPath += `L ${args[0]} ${args[1]} `;
-                    }
-                    else if (fn === pdfjsLib.OPS.curveTo) {
-                        currentPath += `C ${args[0]} ${args[1]} ${args[2]} ${args[3]} ${args[4]} ${args[5]} `;
+        } catch (e) {
+            console.warn("SVG Extraction failed, falling back to raster image only.", e);
+        }
+
+        return {
+            svg: svgString,
+            svgSanitized: svgSanitizedString,
+            svgUltraSafe: svgUltraSafeString
+        };
+    }
+
+    // Emits every painted image as a PNG with its unit-square placement in upright space. Which operators
+    // paint images, and in which CTM and fill color, comes from image-paints.ts; decoding is in image-decoder.ts.
+    private async extractImages(
+        page: pdfjsLib.PDFPageProxy,
+        ops: OperatorList,
+        walk: WalkOptions,
+        settings: ImportSettings
+    ) {
+        const extractedImages: NonNullable<PageData['extractedImages']> = [];
+        const { OPS } = pdfjsLib;
+        try {
+            // Image and mask objects arrive as "obj" messages before the operator list resolves
+            const getObject = (data: any) => {
+                if (typeof data !== 'string') return data;
+                if (page.objs.has(data)) return page.objs.get(data);
+                // @ts-ignore - commonObjs access
+                return page.commonObjs.has(data) ? page.commonObjs.get(data) : null;
+            };
+
+            // `placements` map the unit square in the paint's CTM; one image serves all of them
+            const emit = async (paint: ImagePaint, canvas: HTMLCanvasElement | null, placements: number[][] = [[1, 0, 0, 1, 0, 0]]) => {
+                if (!canvas) return;
+                const imageId = await this.storeImage(canvas, settings);
+                if (!imageId) return;
+                for (const placement of placements) {
+                    const transform = multiplyTransform(placement, paint.transform);
+                    extractedImages.push({
+                        imageId,
+                        transform,
+                        width: canvas.width,
+                        height: canvas.height,
+                        x: transform[4], // approximate translation
+                        y: transform[5],
+                        clipId: paint.clipId
+                    });
+                }
+            };
+            const positioned = (m: number[], positions: number[]) => {
+                const placements: number[][] = [];
+                for (let p = 0; p + 1 < positions.length; p += 2) {
+                    placements.push([m[0], m[1], m[2], m[3], positions[p], positions[p + 1]]);
+                }
+                return placements;
+            };
+            // Mask arguments carry their bits inline (Type3 glyphs) or reference a "mask_" object
+            const mask = (paint: ImagePaint, img: any) =>
+                decodeImageMask(typeof img.data === 'string' ? getObject(img.data) : img, paint.fill, paint.fillAlpha);
+
+            for (const paint of findImagePaints(ops, walk)) {
+                const { fn, args } = paint;
+                try {
+                    if (fn === OPS.paintImageXObject) {
+                        await emit(paint, decodeImage(getObject(args[0])));
                     }
-                    else if (fn === pdfjsLib.OPS.closePath) {
-                        currentPath += `Z `;
+                    else if (fn === OPS.paintInlineImageXObject) {
+                        await emit(paint, decodeImage(args[0]));
                     }
-                    else if (fn === pdfjsLib.OPS.rectangle) {
-                        currentPath += `M ${args[0]} ${args[1]} L ${args[0] + args[2]} ${args[1]} L ${args[0] + args[2]} ${args[1] + args[3]} L ${args[0]} ${args[1] + args[3]} Z `;
+                    // [objId, scaleX, scaleY, positions]
+                    else if (fn === OPS.paintImageXObjectRepeat) {
+                        await emit(paint, decodeImage(getObject(args[0])), positioned([args[1], 0, 0, args[2]], args[3]));
                     }
-                    // Painting (Fill/Stroke)
-                    else if (fn === pdfjsLib.OPS.fill || fn === pdfjsLib.OPS.eoFill) {
-                        if (currentPath) {
-                            nativePaths.push({
-                                d: currentPath,
-                                fill: { ...fillColor },
-                                opacity,
-                                transform: [...currentMatrix]
-                            });
-                            currentPath = ""; // Path is consumed
+                    // [atlas, [{ transform, x, y, w, h }]]: small inline images packed into one image
+                    else if (fn === OPS.paintInlineImageXObjectGroup) {
+                        const atlas = decodeImage(args[0]);
+                        for (const entry of atlas ? args[1] : []) {
+                            await emit(paint, cropCanvas(atlas!, entry.x, entry.y, entry.w, entry.h), [entry.transform]);
                         }
                     }
-                    else if (fn === pdfjsLib.OPS.stroke) {
-                        if (currentPath) {
-                            nativePaths.push({
-                                d: currentPath,
-                                stroke: { ...strokeColor, width: lineWidth },
-                                opacity,
-                                transform: [...currentMatrix]
-                            });
-                            currentPath = "";
-                        }
+                    else if (fn === OPS.paintImageMaskXObject) {
+                        await emit(paint, mask(paint, args[0]));
+                    }
+                    // [mask, scaleX, skewX, skewY, scaleY, positions]
+                    else if (fn === OPS.paintImageMaskXObjectRepeat) {
+                        await emit(paint, mask(paint, args[0]), positioned([args[1], args[2], args[3], args[4]], args[5]));
                     }
-                    else if (fn === pdfjsLib.OPS.fillStroke || fn === pdfjsLib.OPS.eoFillStroke) {
-                        if (currentPath) {
-                            nativePaths.push({
-                                d: currentPath,
-                                fill: { ...fillColor },
-                                stroke: { ...strokeColor, width: lineWidth },
-                                opacity,
-                                transform: [...currentMatrix]
-                            });
-                            currentPath = "";
+                    else if (fn === OPS.paintImageMaskXObjectGroup) {
+                        for (const image of args[0]) {
+                            await emit(paint, mask(paint, image), [image.transform]);
                         }
                     }
-                    else if (fn === pdfjsLib.OPS.endPath) {
-                        currentPath = "";
+                    // A 1x1 opaque mask: the unit square in the fill color
+                    else if (fn === OPS.paintSolidColorImageMask) {
+                        await emit(paint, decodeImageMask({ width: 1, height: 1, data: [0] }, paint.fill, paint.fillAlpha));
                     }
+                } catch (err) {
+                    console.warn(`Failed to extract image at operator ${paint.index}`, err);
                 }
-            } catch (e) {
-                console.warn("Native Path Extraction failed", e);
             }
+        } catch (e) {
+            console.warn("Smart Image Extraction failed", e);
+        }
 
-            // 6. Extract Hyperlinks
-            const links: Array<{ x: number, y: number, w: number, h: number, url: string }> = [];
-            try {
-                const annotations = await page.getAnnotations({ intent: 'display' });
-                for (const annot of annotations) {
-                    if (annot.subtype === 'Link' && annot.url && annot.rect) {
-                        // annot.rect is [xLo, yLo, xHi, yHi] in PDF PDF coordinates (bottom-up)
-                        // We need to convert to Viewport coordinates (which matches our item positions)
-                        const rect = viewport.convertToViewportRectangle(annot.rect);
-                        // Viewport rect is [xMin, yMin, xMax, yMax] (top-down usually, but let's normalize)
-                        // Actually convertToViewportRectangle returns [xMin, yMin, xMax, yMax]
-                        const x = Math.min(rect[0], rect[2]);
-                        const y = Math.min(rect[1], rect[3]);
-                        const w = Math.abs(rect[2] - rect[0]);
-                        const h = Math.abs(rect[3] - rect[1]);
+        return extractedImages;
+    }
+
+    // Id of a decoded image within the import. Identical pixels (a logo on every page, a repeated
+    // pattern tile) are encoded once; the rest reference the first occurrence.
+    private async storeImage(canvas: HTMLCanvasElement, settings: ImportSettings) {
+        const pixels = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+        const key = fingerprint(pixels);
+        const known = this.images.get(key);
+        if (known) return known.id;
+
+        const data = await encodeImage(canvas, pixels, settings.imageFormat, settings.maxImageSize);
+        if (!data) return null;
+        const id = `img${this.images.size}`;
+        this.images.set(key, { id, data });
+        return id;
+    }
 
+    private async extractLinks(page: pdfjsLib.PDFPageProxy, viewport: PageViewport) {
+        const links: PageLink[] = [];
+        try {
+            const annotations = await page.getAnnotations({ intent: 'display' });
+            for (const annot of annotations) {
+                if (annot.subtype === 'Link' && annot.rect && (annot.url || annot.dest)) {
+                    // annot.rect is [xLo, yLo, xHi, yHi] in PDF PDF coordinates (bottom-up)
+                    // We need to convert to Viewport coordinates (which matches our item positions)
+                    const rect = viewport.convertToViewportRectangle(annot.rect);
+                    // Viewport rect is [xMin, yMin, xMax, yMax] (top-down usually, but let's normalize)
+                    // Actually convertToViewportRectangle returns [xMin, yMin, xMax, yMax]
+                    const x = Math.min(rect[0], rect[2]);
+                    const y = Math.min(rect[1], rect[3]);
+                    const w = Math.abs(rect[2] - rect[0]);
+                    const h = Math.abs(rect[3] - rect[1]);
+
+                    if (annot.url) {
                         links.push({ x, y, w, h, url: annot.url });
+                    } else {
+                        // Internal jump (TOC entries, "see page N" references)
+                        const destPage = await this.resolveDestPage(annot.dest);
+                        if (destPage !== undefined) {
+                            links.push({ x, y, w, h, destPage });
+                        }
                     }
                 }
-            } catch (e) {
-                console.warn("Link extraction failed", e);
             }
+        } catch (e) {
+            console.warn("Link extraction failed", e);
+        }
 
-            return {
-                width: viewport.width,
-                height: viewport.height,
-                items: paragraphs,
-                links,
-                svg: svgString,
-                svgSanitized: svgSanitizedString,
-                svgUltraSafe: svgUltraSafeString,
-                image: imageBytes,
-                extractedImages: extractedImages,
-                nativePaths: nativePaths,
-                fonts: Array.from(uniqueFonts)
-            };
-        } finally {
-            console.warn = originalWarn;
+        return links;
+    }
+
+    // Resolve a Link annotation destination (named string or explicit array) to a 0-based page index.
+    private async resolveDestPage(dest: any): Promise<number | undefined> {
+        if (!this.pdf || !dest) return undefined;
+        try {
+            const explicitDest = typeof dest === 'string' ? await this.pdf.getDestination(dest) : dest;
+            if (!Array.isArray(explicitDest) || explicitDest.length === 0) return undefined;
+
+            // First entry is either a page reference ({ num, gen }) or already a page index
+            const target = explicitDest[0];
+            if (typeof target === 'number') return target;
+            if (target && typeof target === 'object') return await this.pdf.getPageIndex(target);
+        } catch (e) {
+            console.warn("Link destination could not be resolved", dest, e);
         }
+        return undefined;
     }
 }
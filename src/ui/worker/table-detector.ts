@@ -0,0 +1,313 @@
+import { groupTextItems, isUpright, Paragraph, TextItem } from './paragraph-grouper';
+import type { NativePath } from './pdf-processor';
+
+// Finds tables on a page so the controller can rebuild them as auto-layout grids.
+// Ruled tables come from horizontal/vertical line segments in the native paths; borderless ones
+// from text whose whitespace gaps line up into columns over several consecutive lines.
+// Works in viewport coordinates (top-left origin); TextItems are converted from PDF space.
+
+export interface TableCell {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    paragraphs: Paragraph[];
+}
+
+export interface PageTable {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    columnWidths: number[];
+    rowHeights: number[];
+    cells: TableCell[][]; // [row][column]
+    border?: { r: number, g: number, b: number, width: number }; // Ruled tables only
+}
+
+interface Ruling {
+    horizontal: boolean;
+    pos: number; // y for horizontal rulings, x for vertical ones
+    from: number;
+    to: number;
+    path: number; // Index in the native path list
+}
+
+interface Box {
+    item: TextItem;
+    left: number;
+    right: number;
+    top: number;
+    bottom: number;
+}
+
+const RULING_TOLERANCE = 2; // Max distance between touching rulings / merged grid lines
+const MAX_RULE_THICKNESS = 2; // Thicker filled rectangles are shapes, not lines
+const CELL_GAP_EM = 1.2; // Whitespace that separates two cells on one line
+const ROW_GAP_EM = 1.5; // Larger vertical gaps end a borderless table
+const MAX_RULINGS = 2000;
+const MIN_ROWS = 3;
+const MAX_MEDIAN_TEXT_LENGTH = 25; // Longer text runs are prose set in columns, not a table
+
+export function detectTables(items: TextItem[], paths: NativePath[], pageHeight: number) {
+    const boxes = items.filter(item => item.str.trim() && isUpright(item)).map(item => toBox(item, pageHeight));
+    const tables: PageTable[] = [];
+    const used = new Set<TextItem>();
+    const usedPaths = new Set<number>();
+
+    // 1. Ruled tables (skipped for line-art heavy pages, the grouping below is quadratic)
+    const { rulings, pure } = extractRulings(paths);
+    const components = rulings.length <= MAX_RULINGS ? connectedRulings(rulings) : [];
+    for (const component of components) {
+        const xs = clusterPositions(component.filter(r => !r.horizontal).map(r => r.pos));
+        const ys = clusterPositions(component.filter(r => r.horizontal).map(r => r.pos));
+        if (xs.length < 3 || ys.length < 3) continue; // At least 2 x 2 cells
+
+        const table = buildTable(xs, ys, boxes.filter(box => !used.has(box.item)), used);
+        const source = paths[component[0].path];
+        const paint = source.stroke || source.fill!;
+        table.border = { r: paint.r, g: paint.g, b: paint.b, width: source.stroke?.width ?? MAX_RULE_THICKNESS / 2 };
+        tables.push(table);
+
+        // The cell borders replace the ruling vectors
+        component.forEach(ruling => { if (pure.has(ruling.path)) usedPaths.add(ruling.path); });
+    }
+
+    // 2. Borderless tables in the remaining text
+    for (const run of alignedRuns(boxes.filter(box => !used.has(box.item)))) {
+        const runBoxes = run.reduce<Box[]>((all, line) => all.concat(line), []);
+        const columns = mergeIntervals(runBoxes.map(box => [box.left, box.right] as [number, number]));
+        if (columns.length < 2) continue;
+
+        const textLengths = runBoxes.map(box => box.item.str.trim().length).sort((a, b) => a - b);
+        if (textLengths[Math.floor(textLengths.length / 2)] > MAX_MEDIAN_TEXT_LENGTH) continue;
+
+        // Column boundaries sit in the middle of the gutters, row boundaries between lines
+        const xs = [columns[0][0] - RULING_TOLERANCE];
+        for (let i = 1; i < columns.length; i++) xs.push((columns[i - 1][1] + columns[i][0]) / 2);
+        xs.push(columns[columns.length - 1][1] + RULING_TOLERANCE);
+
+        const lines = run.map(line => ({
+            top: Math.min(...line.map(box => box.top)),
+            bottom: Math.max(...line.map(box => box.bottom))
+        }));
+        const ys = [lines[0].top - RULING_TOLERANCE];
+        for (let i = 1; i < lines.length; i++) ys.push((lines[i - 1].bottom + lines[i].top) / 2);
+        ys.push(lines[lines.length - 1].bottom + RULING_TOLERANCE);
+
+        tables.push(buildTable(xs, ys, runBoxes, used));
+    }
+
+    return {
+        tables,
+        items: items.filter(item => !used.has(item)),
+        paths: paths.filter((_, i) => !usedPaths.has(i))
+    };
+}
+
+function buildTable(xs: number[], ys: number[], boxes: Box[], used: Set<TextItem>): PageTable {
+    const cells: TableCell[][] = [];
+    for (let r = 0; r < ys.length - 1; r++) {
+        const row: TableCell[] = [];
+        for (let c = 0; c < xs.length - 1; c++) {
+            const cell = { x: xs[c], y: ys[r], width: xs[c + 1] - xs[c], height: ys[r + 1] - ys[r] };
+            // Text belongs to the cell containing its centre
+            const inside = boxes.filter(box => {
+                const cx = (box.left + box.right) / 2;
+                const cy = (box.top + box.bottom) / 2;
+                return cx >= cell.x && cx < cell.x + cell.width && cy >= cell.y && cy < cell.y + cell.height;
+            });
+            inside.forEach(box => used.add(box.item));
+            row.push({ ...cell, paragraphs: groupTextItems(inside.map(box => box.item)) });
+        }
+        cells.push(row);
+    }
+
+    return {
+        x: xs[0],
+        y: ys[0],
+        width: xs[xs.length - 1] - xs[0],
+        height: ys[ys.length - 1] - ys[0],
+        columnWidths: xs.slice(1).map((x, i) => x - xs[i]),
+        rowHeights: ys.slice(1).map((y, i) => y - ys[i]),
+        cells
+    };
+}
+
+// Axis-aligned segments of stroked polylines and thin filled rectangles.
+// `pure` marks paths made only of rulings, which can be dropped once a table draws the borders.
+function extractRulings(paths: NativePath[]) {
+    const rulings: Ruling[] = [];
+    const pure = new Set<number>();
+
+    paths.forEach((path, index) => {
+        const subpaths = parsePolylines(path.d);
+        if (!subpaths) return;
+
+        let onlyRulings = true;
+        const found: Ruling[] = [];
+        for (const points of subpaths) {
+            if (path.stroke) {
+                for (let i = 1; i < points.length; i++) {
+                    const ruling = toRuling(points[i - 1], points[i], index);
+                    if (ruling) found.push(ruling);
+                    else onlyRulings = false;
+                }
+            } else if (path.fill && points.length >= 4) {
+                const xs = points.map(p => p[0]);
+                const ys = points.map(p => p[1]);
+                const w = Math.max(...xs) - Math.min(...xs);
+                const h = Math.max(...ys) - Math.min(...ys);
+                const isRect = points.every(p => (p[0] === Math.min(...xs) || p[0] === Math.max(...xs)) && (p[1] === Math.min(...ys) || p[1] === Math.max(...ys)));
+                if (isRect && h <= MAX_RULE_THICKNESS && w > h * 3) {
+                    found.push({ horizontal: true, pos: Math.min(...ys) + h / 2, from: Math.min(...xs), to: Math.max(...xs), path: index });
+                } else if (isRect && w <= MAX_RULE_THICKNESS && h > w * 3) {
+                    found.push({ horizontal: false, pos: Math.min(...xs) + w / 2, from: Math.min(...ys), to: Math.max(...ys), path: index });
+                } else {
+                    onlyRulings = false;
+                }
+            }
+        }
+
+        rulings.push(...found);
+        // A stroked shape that is also filled (shaded cell) keeps its vector for the fill
+        if (found.length > 0 && onlyRulings && !(path.stroke && path.fill)) pure.add(index);
+    });
+
+    return { rulings, pure };
+}
+
+function toRuling(a: number[], b: number[], path: number): Ruling | null {
+    const dx = Math.abs(b[0] - a[0]);
+    const dy = Math.abs(b[1] - a[1]);
+    if (dy < 0.5 && dx > 1) return { horizontal: true, pos: a[1], from: Math.min(a[0], b[0]), to: Math.max(a[0], b[0]), path };
+    if (dx < 0.5 && dy > 1) return { horizontal: false, pos: a[0], from: Math.min(a[1], b[1]), to: Math.max(a[1], b[1]), path };
+    return null;
+}
+
+// Splits "M x y L x y ... Z" path data into point lists (closed subpaths repeat their first point).
+// Returns null for paths with curves, which never draw table borders.
+function parsePolylines(d: string): number[][][] | null {
+    const tokens = d.trim().split(/\s+/);
+    const subpaths: number[][][] = [];
+    let current: number[][] = [];
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token === 'M') {
+            current = [[Number(tokens[i + 1]), Number(tokens[i + 2])]];
+            subpaths.push(current);
+            i += 2;
+        } else if (token === 'L') {
+            current.push([Number(tokens[i + 1]), Number(tokens[i + 2])]);
+            i += 2;
+        } else if (token === 'Z') {
+            if (current.length > 0) current.push(current[0]);
+        } else {
+            return null;
+        }
+    }
+    return subpaths;
+}
+
+// Groups rulings that touch or cross each other (union-find)
+function connectedRulings(rulings: Ruling[]): Ruling[][] {
+    const parent = rulings.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+    const touches = (h: Ruling, v: Ruling) =>
+        v.pos >= h.from - RULING_TOLERANCE && v.pos <= h.to + RULING_TOLERANCE &&
+        h.pos >= v.from - RULING_TOLERANCE && h.pos <= v.to + RULING_TOLERANCE;
+
+    for (let i = 0; i < rulings.length; i++) {
+        for (let j = i + 1; j < rulings.length; j++) {
+            const a = rulings[i];
+            const b = rulings[j];
+            if (a.horizontal === b.horizontal) continue;
+            if (touches(a.horizontal ? a : b, a.horizontal ? b : a)) parent[find(i)] = find(j);
+        }
+    }
+
+    const groups = new Map<number, Ruling[]>();
+    rulings.forEach((ruling, i) => {
+        const root = find(i);
+        if (!groups.has(root)) groups.set(root, []);
+        groups.get(root)!.push(ruling);
+    });
+    return [...groups.values()];
+}
+
+// Sorted distinct positions, merging values closer than the tolerance (double-drawn borders)
+function clusterPositions(values: number[]) {
+    const sorted = [...values].sort((a, b) => a - b);
+    const result: number[] = [];
+    for (const value of sorted) {
+        if (result.length === 0 || value - result[result.length - 1] > RULING_TOLERANCE) result.push(value);
+    }
+    return result;
+}
+
+// Runs of at least MIN_ROWS consecutive lines that each split into two or more cells.
+// Each run is a list of lines, each line a list of boxes.
+function alignedRuns(boxes: Box[]): Box[][][] {
+    const lines = groupLines(boxes);
+    const runs: Box[][][] = [];
+    let run: Box[][] = [];
+
+    const flush = () => {
+        if (run.length >= MIN_ROWS) runs.push(run);
+        run = [];
+    };
+
+    for (const line of lines) {
+        const em = line[0].item.fontSize;
+        const cells = splitCells(line, em);
+        const previous = run[run.length - 1];
+        const close = previous && line[0].top - Math.max(...previous.map(box => box.bottom)) < em * ROW_GAP_EM;
+
+        if (cells < 2) {
+            flush();
+            continue;
+        }
+        if (!close) flush();
+        run.push(line);
+    }
+    flush();
+    return runs;
+}
+
+// Boxes sharing a baseline, top to bottom, each line sorted left to right
+function groupLines(boxes: Box[]): Box[][] {
+    const sorted = [...boxes].sort((a, b) => a.bottom - b.bottom);
+    const lines: Box[][] = [];
+    for (const box of sorted) {
+        const line = lines[lines.length - 1];
+        if (line && Math.abs(line[0].bottom - box.bottom) < box.item.fontSize * 0.3) line.push(box);
+        else lines.push([box]);
+    }
+    return lines.map(line => line.sort((a, b) => a.left - b.left));
+}
+
+function splitCells(line: Box[], em: number) {
+    let cells = 1;
+    for (let i = 1; i < line.length; i++) {
+        if (line[i].left - line[i - 1].right >= em * CELL_GAP_EM) cells++;
+    }
+    return cells;
+}
+
+function mergeIntervals(intervals: Array<[number, number]>) {
+    const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+    const merged: Array<[number, number]> = [];
+    for (const [lo, hi] of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && lo <= last[1]) last[1] = Math.max(last[1], hi);
+        else merged.push([lo, hi]);
+    }
+    return merged;
+}
+
+function toBox(item: TextItem, pageHeight: number): Box {
+    const height = item.height > 0 ? item.height : item.fontSize;
+    const bottom = pageHeight - item.y;
+    return { item, left: item.x, right: item.x + Math.max(item.width, 0), top: bottom - height, bottom };
+}
@@ -0,0 +1,74 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import { describe, expect, it } from 'vitest';
+import type { PaintSource } from './color-spaces';
+import type { PageGeometry, PageViewport } from './page-geometry';
+import { outlineText } from './text-outliner';
+
+const { OPS } = pdfjsLib;
+
+// One embedded font with a square glyph for "A"
+const font = { loadedName: 'f1', fontMatrix: [0.001, 0, 0, 0.001, 0, 0] };
+const objects: Record<string, any> = {
+    f1: font,
+    f1_path_A: [{ cmd: 'moveTo', args: [0, 0] }, { cmd: 'lineTo', args: [1, 0] }, { cmd: 'lineTo', args: [1, 1] }, { cmd: 'closePath' }]
+};
+const commonObjs = { has: (id: string) => id in objects, get: (id: string) => objects[id] };
+const viewport = { transform: [1, 0, 0, -1, 0, 100], width: 100, height: 100 } as unknown as PageViewport;
+const geometry: PageGeometry = { viewport, width: 100, height: 100, scale: 1, toUpright: [1, 0, 0, 1, 0, 0] };
+const walkOptions = (paints = new Map<number, PaintSource>()) => ({ geometry, paints, cmykConversion: 'rendered' as const });
+
+// "AA" at (10, 20), size 10, in the given rendering mode, with a red fill and blue 2-unit stroke
+const showText = (renderMode: number) => ({
+    fnArray: [OPS.setFillRGBColor, OPS.setStrokeRGBColor, OPS.setLineWidth, OPS.beginText, OPS.setFont,
+        OPS.setTextRenderingMode, OPS.moveText, OPS.showText, OPS.endText],
+    argsArray: [[255, 0, 0], [0, 0, 255], [2], [], ['f1', 10], [renderMode], [10, 20],
+        [[{ fontChar: 'A', width: 500 }, { fontChar: 'A', width: 500 }]], []]
+}) as any;
+
+const outline = (renderMode: number) => outlineText(showText(renderMode), commonObjs, walkOptions(), () => true);
+
+describe('outlineText', () => {
+    it.each([
+        [0, true, false],
+        [1, false, true],
+        [2, true, true],
+        [4, true, false], // Fill, then add to the clip
+        [5, false, true],
+        [6, true, true]
+    ])('paints rendering mode %i with fill %s and stroke %s', (mode, filled, stroked) => {
+        const { paths, runs } = outline(mode);
+        expect(paths).toHaveLength(1);
+        expect(!!paths[0].fill).toBe(filled);
+        expect(!!paths[0].stroke).toBe(stroked);
+        expect(runs).toEqual([{ from: [10, 80], to: [20, 80], size: 10 }]);
+    });
+
+    it('uses the fill and stroke state', () => {
+        const { paths } = outline(2);
+        expect(paths[0].fill).toEqual({ r: 1, g: 0, b: 0, opacity: 1 });
+        expect(paths[0].stroke).toMatchObject({ r: 0, g: 0, b: 1, opacity: 1, width: 2 });
+    });
+
+    it.each([3, 7])('draws nothing for invisible mode %i', mode => {
+        expect(outline(mode)).toEqual({ paths: [], runs: [], clips: {} });
+    });
+
+    it('only reports runs for fonts it outlines', () => {
+        expect(outlineText(showText(0), commonObjs, walkOptions(), () => false)).toEqual({ paths: [], runs: [], clips: {} });
+    });
+
+    it('places text in a form through its matrix and clips it to the form bbox', () => {
+        const ops = showText(0);
+        ops.fnArray = [OPS.paintFormXObjectBegin, ...ops.fnArray, OPS.paintFormXObjectEnd];
+        ops.argsArray = [[[2, 0, 0, 2, 0, 0], [0, 0, 30, 30]], ...ops.argsArray, []];
+        const { paths, runs, clips } = outlineText(ops, commonObjs, walkOptions(), () => true);
+        expect(runs).toEqual([{ from: [20, 60], to: [40, 60], size: 20 }]);
+        expect(clips[paths[0].clipId!]).toEqual([{ d: 'M 0 100 L 60 100 L 60 40 L 0 40 Z', windingRule: 'NONZERO' }]);
+    });
+
+    it('keeps the spot color traced for the fill operator', () => {
+        const spot = { name: 'PANTONE 185 C', tint: 1 };
+        const { paths } = outlineText(showText(0), commonObjs, walkOptions(new Map([[0, { spot }]])), () => true);
+        expect(paths[0].fill).toMatchObject({ r: 1, g: 0, b: 0, spot });
+    });
+});
@@ -0,0 +1,231 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import { pathPaint } from './native-paths';
+import { GraphicsState, walkOperators, WalkOptions } from './operator-walker';
+import { buildPathData, multiplyTransform } from './page-geometry';
+import type { ClipPath, NativePath } from './pdf-processor';
+
+// Turns text drawn in selected fonts into vector outlines, one path per text-showing operator, filled
+// and/or stroked as its rendering mode says (clipping adds nothing visible, invisible text is skipped).
+// Glyph outlines come from the font objects PDF.js sends to commonObjs: "<font>_path_<char>" command
+// lists for embedded fonts (only sent when the document is loaded with disableFontFace) and the glyph
+// operator lists of Type3 fonts. Text positioning replays what PDF.js's canvas does in showText; the
+// graphics state (CTM, forms, clips, colors) comes from the shared operator walker.
+
+type OperatorList = Awaited<ReturnType<pdfjsLib.PDFPageProxy['getOperatorList']>>;
+
+// Baseline of a string that was drawn as outlines, in viewport coordinates
+export interface OutlinedRun {
+    from: number[];
+    to: number[];
+    size: number; // Font size in viewport units
+}
+
+// Text state on top of the graphics state
+interface TextState {
+    font: any;
+    fontSize: number;
+    fontDirection: number; // -1 for negative font sizes
+    textMatrix: number[];
+    x: number; // Position within the text line, in text space
+    y: number;
+    lineX: number;
+    lineY: number;
+    leading: number;
+    charSpacing: number;
+    wordSpacing: number;
+    hScale: number;
+    rise: number;
+    renderMode: number;
+}
+
+const IDENTITY = [1, 0, 0, 1, 0, 0];
+// Text rendering modes 0-7: fill, stroke, fill + stroke, invisible, then the same four adding to the clip
+const FILLS = [true, false, true, false, true, false, true, false];
+const STROKES = [false, true, true, false, false, true, true, false];
+
+// Path commands of one glyph ("save", "transform", "scale", moveTo/lineTo/... as in a canvas context)
+const glyphPathData = (cmds: Array<{ cmd: string, args?: any[] }>, base: number[], size: number) => {
+    let m = base;
+    const stack: number[][] = [];
+    const pt = (x: number, y: number) =>
+        `${+(m[0] * x + m[2] * y + m[4]).toFixed(3)} ${+(m[1] * x + m[3] * y + m[5]).toFixed(3)}`;
+    const sized = (value: any) => value === 'size' ? size : value === '-size' ? -size : Number(value);
+
+    let d = '';
+    for (const { cmd, args = [] } of cmds) {
+        if (cmd === 'save') stack.push(m);
+        else if (cmd === 'restore') m = stack.pop() || base;
+        else if (cmd === 'transform') m = multiplyTransform(args, m);
+        else if (cmd === 'scale') m = multiplyTransform([sized(args[0]), 0, 0, sized(args[1]), 0, 0], m);
+        else if (cmd === 'translate') m = multiplyTransform([1, 0, 0, 1, args[0], args[1]], m);
+        else if (cmd === 'moveTo') d += `M ${pt(args[0], args[1])} `;
+        else if (cmd === 'lineTo') d += `L ${pt(args[0], args[1])} `;
+        else if (cmd === 'bezierCurveTo') d += `C ${pt(args[0], args[1])} ${pt(args[2], args[3])} ${pt(args[4], args[5])} `;
+        else if (cmd === 'quadraticCurveTo') d += `Q ${pt(args[0], args[1])} ${pt(args[2], args[3])} `;
+        else if (cmd === 'closePath') d += 'Z ';
+    }
+    return d;
+};
+
+// Filled paths of a Type3 glyph procedure (colors inside the procedure are ignored: the text fill wins)
+const type3PathData = (opList: { fnArray: number[], argsArray: any[] }, base: number[]) => {
+    const { OPS } = pdfjsLib;
+    let m = base;
+    const stack: number[][] = [];
+    let current = '';
+    let d = '';
+    for (let i = 0; i < opList.fnArray.length; i++) {
+        const fn = opList.fnArray[i];
+        const args = opList.argsArray[i];
+        if (fn === OPS.save) stack.push(m);
+        else if (fn === OPS.restore) m = stack.pop() || base;
+        else if (fn === OPS.transform) m = multiplyTransform(args, m);
+        else if (fn === OPS.constructPath) current += buildPathData(args[0], args[1], m);
+        else if (fn === OPS.fill || fn === OPS.eoFill || fn === OPS.fillStroke || fn === OPS.eoFillStroke ||
+            fn === OPS.closeFillStroke || fn === OPS.closeEOFillStroke) {
+            d += current;
+            current = '';
+        }
+        else if (fn === OPS.stroke || fn === OPS.closeStroke || fn === OPS.endPath) current = '';
+    }
+    return d;
+};
+
+const transformPoint = (m: number[], x: number, y: number) => [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+
+// `shouldOutline` decides per PDF.js font object; text in other fonts only advances the position.
+// `runs` tells which text actually got outlines; `clips` holds the clip chains the paths refer to.
+export function outlineText(
+    ops: OperatorList,
+    commonObjs: any,
+    options: WalkOptions,
+    shouldOutline: (font: any) => boolean
+): { paths: NativePath[], runs: OutlinedRun[], clips: Record<string, ClipPath[]> } {
+    const { OPS } = pdfjsLib;
+    const { viewport } = options.geometry;
+    const paths: NativePath[] = [];
+    const runs: OutlinedRun[] = [];
+
+    const initial: TextState = {
+        font: null, fontSize: 0, fontDirection: 1,
+        textMatrix: IDENTITY, x: 0, y: 0, lineX: 0, lineY: 0, leading: 0,
+        charSpacing: 0, wordSpacing: 0, hScale: 1, rise: 0, renderMode: 0
+    };
+
+    const moveText = (state: GraphicsState & TextState, x: number, y: number) => {
+        state.x = state.lineX += x;
+        state.y = state.lineY += y;
+    };
+
+    const showText = (state: GraphicsState & TextState, glyphs: any[]) => {
+        const { font, fontSize, fontDirection } = state;
+        if (!font || fontSize === 0) return;
+        const hScale = state.hScale * fontDirection;
+        // Type3 glyph procedures paint themselves: only invisible modes hide them
+        const fill = font.isType3Font ? FILLS[state.renderMode] || STROKES[state.renderMode] : FILLS[state.renderMode];
+        const stroke = !font.isType3Font && STROKES[state.renderMode];
+        const outline = shouldOutline(font) && (fill || stroke);
+
+        // Text space origin of this string in viewport coordinates
+        const ctm = multiplyTransform(state.matrix, viewport.transform);
+        const textSpace = multiplyTransform(state.textMatrix, ctm);
+        const start = transformPoint(textSpace, state.x, state.y);
+        let base = textSpace;
+        let d = '';
+        let advance = 0;
+
+        if (font.isType3Font) {
+            base = multiplyTransform([1, 0, 0, 1, state.x, state.y], base);
+            base = multiplyTransform([hScale, 0, 0, fontDirection, 0, 0], base);
+            const fontMatrix = font.fontMatrix || [0.001, 0, 0, 0.001, 0, 0];
+            for (const glyph of glyphs) {
+                if (typeof glyph === 'number') {
+                    advance += -glyph * fontSize / 1000;
+                    continue;
+                }
+                const opList = font.charProcOperatorList?.[glyph.operatorListId];
+                if (outline && opList) {
+                    let m = multiplyTransform([1, 0, 0, 1, advance, 0], base);
+                    m = multiplyTransform([fontSize, 0, 0, fontSize, 0, 0], m);
+                    m = multiplyTransform(fontMatrix, m);
+                    d += type3PathData(opList, m);
+                }
+                const spacing = (glyph.isSpace ? state.wordSpacing : 0) + state.charSpacing;
+                advance += (glyph.width * fontMatrix[0]) * fontSize + spacing;
+            }
+        } else {
+            base = multiplyTransform([1, 0, 0, 1, state.x, state.y + state.rise], base);
+            base = multiplyTransform([hScale, 0, 0, fontDirection > 0 ? -1 : 1, 0, 0], base);
+            const widthScale = fontSize * (font.fontMatrix || [0.001])[0];
+            const glyphPath = (fontChar: string, x: number, y: number) => {
+                const id = `${font.loadedName}_path_${fontChar}`;
+                if (!commonObjs.has(id)) return '';
+                return glyphPathData(commonObjs.get(id), multiplyTransform([1, 0, 0, 1, x, y], base), fontSize);
+            };
+            for (const glyph of glyphs) {
+                if (typeof glyph === 'number') {
+                    advance += -glyph * fontSize / 1000;
+                    continue;
+                }
+                if (outline && glyph.fontChar) {
+                    d += glyphPath(glyph.fontChar, advance, 0);
+                    if (glyph.accent?.fontChar) {
+                        const { x, y } = glyph.accent.offset;
+                        d += glyphPath(glyph.accent.fontChar, advance + fontSize * x, -fontSize * y);
+                    }
+                }
+                const spacing = (glyph.isSpace ? state.wordSpacing : 0) + state.charSpacing;
+                advance += glyph.width * widthScale + spacing * fontDirection;
+            }
+        }
+
+        if (font.vertical) state.y -= advance;
+        else state.x += advance * hScale;
+
+        if (d) {
+            paths.push({ d: d.trim(), windingRule: 'NONZERO', ...pathPaint(state, ctm, fill, stroke) });
+            runs.push({ from: start, to: transformPoint(textSpace, state.x, state.y), size: fontSize * Math.hypot(textSpace[2], textSpace[3]) });
+        }
+    };
+
+    const clips = walkOperators<TextState>(ops, options, initial, (fn, args, _, state) => {
+        if (fn === OPS.beginText) {
+            state.textMatrix = IDENTITY;
+            state.x = state.y = state.lineX = state.lineY = 0;
+        }
+        else if (fn === OPS.setFont) {
+            const [loadedName, size] = args;
+            state.font = commonObjs.has(loadedName) ? commonObjs.get(loadedName) : null;
+            state.fontDirection = size < 0 ? -1 : 1;
+            state.fontSize = Math.abs(size);
+        }
+        else if (fn === OPS.setTextMatrix) {
+            state.textMatrix = args.length === 6 ? [...args] : [...args[0]];
+            state.x = state.y = state.lineX = state.lineY = 0;
+        }
+        else if (fn === OPS.moveText) moveText(state, args[0], args[1]);
+        else if (fn === OPS.setLeadingMoveText) {
+            state.leading = args[1];
+            moveText(state, args[0], args[1]);
+        }
+        else if (fn === OPS.nextLine) moveText(state, 0, state.leading);
+        else if (fn === OPS.setLeading) state.leading = -args[0];
+        else if (fn === OPS.setCharSpacing) state.charSpacing = args[0];
+        else if (fn === OPS.setWordSpacing) state.wordSpacing = args[0];
+        else if (fn === OPS.setHScale) state.hScale = args[0] / 100;
+        else if (fn === OPS.setTextRise) state.rise = args[0];
+        else if (fn === OPS.setTextRenderingMode) state.renderMode = args[0];
+        else if (fn === OPS.showText || fn === OPS.showSpacedText) showText(state, args[0]);
+        else if (fn === OPS.nextLineShowText) {
+            moveText(state, 0, state.leading);
+            showText(state, args[0]);
+        }
+        else if (fn === OPS.nextLineSetSpacingShowText) {
+            state.wordSpacing = args[0];
+            state.charSpacing = args[1];
+            moveText(state, 0, state.leading);
+            showText(state, args[2]);
+        }
+    });
+    return { paths, runs, clips };
+}
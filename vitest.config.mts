@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests for the pure modules (layout, geometry, placement math). Kept apart from vite.config.mts,
+// whose root is the UI folder, so tests anywhere under src/ are found.
+export default defineConfig({
+    test: {
+        include: ['src/**/*.test.ts'],
+        environment: 'node'
+    }
+});